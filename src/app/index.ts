@@ -2,15 +2,16 @@ import fs from 'fs'
 import _ from 'lodash'
 import nodeCleanup from 'node-cleanup'
 import { Logger } from 'winston'
-import { DynamodbService } from '../repository'
+import { DatabaseService, IDynamodbService } from '../repository'
 import { bootstrapHttpApi } from '../services/httpApi/main'
 import { LoggingService } from '../services/logging'
 import { QueryNodeApi } from '../services/query-node/api'
 import { RuntimeApi } from '../services/runtime/api'
 import { JoystreamClient } from '../services/runtime/client'
 import { ContentProcessingService } from '../services/syncProcessing'
+import { ChannelLimitsPolicy } from '../services/syncProcessing/ChannelLimitsPolicy'
 import { YoutubePollingService } from '../services/syncProcessing/YoutubePollingService'
-import { IYoutubeApi, YoutubeApi } from '../services/youtube/api'
+import { DEFAULT_DOWNLOAD_FORMAT_POLICY, IYoutubeApi, YoutubeApi } from '../services/youtube/api'
 import { Config, DisplaySafeConfig } from '../types'
 
 export class Service {
@@ -19,7 +20,7 @@ export class Service {
   private logger: Logger
   private youtubeApi: IYoutubeApi
   private queryNodeApi: QueryNodeApi
-  private dynamodbService: DynamodbService
+  private dynamodbService: IDynamodbService
   private runtimeApi: RuntimeApi
   private joystreamClient: JoystreamClient
   private youtubePollingService: YoutubePollingService
@@ -31,25 +32,38 @@ export class Service {
     this.logging = LoggingService.withAppConfig(config.logs)
     this.logger = this.logging.createLogger('Server')
     this.queryNodeApi = new QueryNodeApi(config.endpoints.queryNode, this.logging)
-    this.dynamodbService = new DynamodbService(this.config.aws)
-    this.youtubeApi = YoutubeApi.create(this.config, this.dynamodbService.repo.stats)
+    this.dynamodbService = DatabaseService.create(this.config, this.logging)
+    this.youtubeApi = YoutubeApi.create(this.config, this.dynamodbService.repo, this.logging)
     this.runtimeApi = new RuntimeApi(config.endpoints.joystreamNodeWs, this.logging)
     this.joystreamClient = new JoystreamClient(config, this.runtimeApi, this.queryNodeApi, this.logging)
 
     if (config.sync.enable) {
+      const channelLimitsPolicy = new ChannelLimitsPolicy(config.sync.limits.channelLimits)
       this.youtubePollingService = new YoutubePollingService(
         this.logging,
         this.youtubeApi,
         this.dynamodbService,
-        this.joystreamClient
+        this.joystreamClient,
+        this.queryNodeApi,
+        channelLimitsPolicy,
+        config.sync.limits.reauthorizationGracePeriod,
+        config.sync.polling
       )
       this.contentProcessingService = new ContentProcessingService(
-        { ...config.sync, ...config.endpoints },
+        {
+          subtitles: { enable: false },
+          downloadFormat: { default: DEFAULT_DOWNLOAD_FORMAT_POLICY },
+          transcoding: { enable: false },
+          polling: {},
+          ...config.sync,
+          ...config.endpoints,
+        },
         this.logging,
         this.dynamodbService,
         this.youtubeApi,
         this.joystreamClient,
-        this.queryNodeApi
+        this.queryNodeApi,
+        channelLimitsPolicy
       )
     }
   }
@@ -0,0 +1,49 @@
+import { CLIError } from '@oclif/errors'
+import { DynamodbService, IRepository, SqlDatabaseService } from '../../../repository'
+import CLIExitCodes from '../../base/ExitCodes'
+import DefaultCommandBase from '../../base/default'
+
+export default class MigrateFromDynamodb extends DefaultCommandBase {
+  static description =
+    `Copies all the items of the DynamoDB tables (configured by the 'aws' config section) ` +
+    `to the SQL database (configured by the 'database' config section)`
+
+  static flags = {
+    ...DefaultCommandBase.flags,
+  }
+
+  private async copyTable<T>(name: string, source: IRepository<T>, target: IRepository<T>) {
+    const items = await source.scanAll()
+    await target.batchSave(items)
+    this.log(`Copied ${items.length} items of '${name}' table`)
+  }
+
+  async run(): Promise<void> {
+    const { database, aws } = this.appConfig
+    if (!database || database.type === 'dynamodb') {
+      throw new CLIError(`'database.type' config should be set to either 'sqlite' or 'postgres'`, {
+        exit: CLIExitCodes.InvalidInput,
+      })
+    }
+
+    await this.requireConfirmation(
+      `Do you confirm copying all the DynamoDB tables to the '${database.type}' database? ` +
+        `Existing items with the same keys will be overwritten`,
+      false
+    )
+
+    const dynamo = new DynamodbService(aws, this.logging)
+    const sql = new SqlDatabaseService(database)
+    try {
+      await this.copyTable('users', dynamo.repo.users, sql.repo.users)
+      await this.copyTable('channels', dynamo.repo.channels, sql.repo.channels)
+      await this.copyTable('videos', dynamo.repo.videos, sql.repo.videos)
+      await this.copyTable('playlists', dynamo.repo.playlists, sql.repo.playlists)
+      await this.copyTable('stats', dynamo.repo.stats, sql.repo.stats)
+      await this.copyTable('whitelistChannels', dynamo.repo.whitelistChannels, sql.repo.whitelistChannels)
+      await this.copyTable('videoCategoryMappings', dynamo.repo.videoCategoryMappings, sql.repo.videoCategoryMappings)
+    } finally {
+      await sql.destroy()
+    }
+  }
+}
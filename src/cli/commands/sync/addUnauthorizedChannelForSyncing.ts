@@ -5,7 +5,7 @@ import { PalletContentChannelRecord } from '@polkadot/types/lookup'
 import axios from 'axios'
 import { load } from 'cheerio'
 import ytpl from 'ytpl'
-import { DynamodbService } from '../../../repository'
+import { DatabaseService } from '../../../repository'
 import { Thumbnails, YtChannel, YtVideo } from '../../../types/youtube'
 import CLIExitCodes from '../../base/ExitCodes'
 import RuntimeApiCommandBase from '../../base/runtimeApi'
@@ -99,7 +99,7 @@ export default class AddUnauthorizedChannelForSyncing extends RuntimeApiCommandB
       channelPlaylistId = await ytpl.getPlaylistID(youtubeChannelId)
     }
 
-    const dynamo = new DynamodbService(this.appConfig.aws)
+    const dynamo = DatabaseService.create(this.appConfig, this.logging)
     const ytChannel = await ytpl(channelPlaylistId || '', { limit: videosLimit })
 
     // Ensure Youtube Channel is not already being synced.
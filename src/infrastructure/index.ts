@@ -1,5 +1,14 @@
 import * as aws from '@pulumi/aws'
-import { resourcePrefix, Stats, WhitelistChannel, YtChannel, YtUser, YtVideo } from '../types/youtube'
+import {
+  resourcePrefix,
+  Stats,
+  VideoCategoryMapping,
+  WhitelistChannel,
+  YtChannel,
+  YtPlaylist,
+  YtUser,
+  YtVideo,
+} from '../types/youtube'
 
 const nameof = <T>(name: keyof T) => <string>name
 
@@ -112,6 +121,23 @@ const videosTable = new aws.dynamodb.Table('videos', {
   billingMode: 'PAY_PER_REQUEST',
 })
 
+const playlistsTable = new aws.dynamodb.Table('playlists', {
+  name: `${resourcePrefix}playlists`,
+  hashKey: nameof<YtPlaylist>('channelId'),
+  rangeKey: nameof<YtPlaylist>('id'),
+  attributes: [
+    {
+      name: nameof<YtPlaylist>('channelId'),
+      type: 'S',
+    },
+    {
+      name: nameof<YtPlaylist>('id'),
+      type: 'S',
+    },
+  ],
+  billingMode: 'PAY_PER_REQUEST',
+})
+
 const statsTable = new aws.dynamodb.Table('stats', {
   name: `${resourcePrefix}stats`,
   hashKey: nameof<Stats>('partition'),
@@ -135,8 +161,22 @@ const whitelistChannelsTable = new aws.dynamodb.Table('whitelistChannels', {
   billingMode: 'PAY_PER_REQUEST',
 })
 
+const videoCategoryMappingsTable = new aws.dynamodb.Table('videoCategoryMappings', {
+  name: `${resourcePrefix}videoCategoryMappings`,
+  hashKey: nameof<VideoCategoryMapping>('ytCategoryId'),
+  attributes: [
+    {
+      name: nameof<VideoCategoryMapping>('ytCategoryId'),
+      type: 'S',
+    },
+  ],
+  billingMode: 'PAY_PER_REQUEST',
+})
+
 export const usersTableArn = userTable.arn
 export const channelsTableArn = channelsTable.arn
 export const videosTableArn = videosTable.arn
+export const playlistsTableArn = playlistsTable.arn
 export const statsTableArn = statsTable.arn
 export const whitelistChannelsTableArn = whitelistChannelsTable.arn
+export const videoCategoryMappingsTableArn = videoCategoryMappingsTable.arn
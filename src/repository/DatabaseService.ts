@@ -0,0 +1,17 @@
+import { LoggingService } from '../services/logging'
+import { ReadonlyConfig } from '../types'
+import { DynamodbService, IDynamodbService } from './DynamodbService'
+import { SqlDatabaseService } from './sql'
+
+export const DatabaseService = {
+  /**
+   * Creates the persistence service for the storage backend selected by `database.type`
+   * config (defaults to DynamoDB, configured using `aws` config section)
+   */
+  create({ database, aws }: Pick<ReadonlyConfig, 'database' | 'aws'>, logging: LoggingService): IDynamodbService {
+    if (database && database.type !== 'dynamodb') {
+      return new SqlDatabaseService(database)
+    }
+    return new DynamodbService(aws, logging)
+  },
+}
@@ -1,32 +1,43 @@
 import * as dynamoose from 'dynamoose'
+import { LoggingService } from '../services/logging'
 import { ReadonlyConfig } from '../types'
 import { ResourcePrefix, resourcePrefix } from '../types/youtube'
-import { ChannelsRepository, ChannelsService } from './channel'
-import { StatsRepository } from './stats'
-import { UsersRepository, UsersService } from './user'
-import { VideosRepository, VideosService } from './video'
-import { WhitelistChannelsRepository } from './whitelistChannels'
+import { ChannelsRepository, ChannelsService, IChannelsRepository } from './channel'
+import { IPlaylistsRepository, PlaylistsRepository } from './playlist'
+import { IStatsRepository, StatsRepository } from './stats'
+import { IUsersRepository, UsersRepository, UsersService } from './user'
+import { IVideosRepository, VideosRepository, VideosService } from './video'
+import { IVideoCategoryMappingsRepository, VideoCategoryMappingsRepository } from './videoCategoryMappings'
+import { IWhitelistChannelsRepository, WhitelistChannelsRepository } from './whitelistChannels'
 
-interface IDynamodbClient {
-  channels: ChannelsRepository
-  users: UsersRepository
-  videos: VideosRepository
-  stats: StatsRepository
-  whitelistChannels: WhitelistChannelsRepository
+export interface IDynamodbClient {
+  channels: IChannelsRepository
+  users: IUsersRepository
+  videos: IVideosRepository
+  playlists: IPlaylistsRepository
+  stats: IStatsRepository
+  whitelistChannels: IWhitelistChannelsRepository
+  videoCategoryMappings: IVideoCategoryMappingsRepository
 }
 
 const DynamodbClient = {
-  create(tablePrefix: ResourcePrefix): IDynamodbClient {
+  create(tablePrefix: ResourcePrefix, logging: LoggingService): IDynamodbClient {
     return {
-      channels: new ChannelsRepository(tablePrefix),
-      users: new UsersRepository(tablePrefix),
-      videos: new VideosRepository(tablePrefix),
-      stats: new StatsRepository(tablePrefix),
-      whitelistChannels: new WhitelistChannelsRepository(tablePrefix),
+      channels: new ChannelsRepository(tablePrefix, logging),
+      users: new UsersRepository(tablePrefix, logging),
+      videos: new VideosRepository(tablePrefix, logging),
+      playlists: new PlaylistsRepository(tablePrefix, logging),
+      stats: new StatsRepository(tablePrefix, logging),
+      whitelistChannels: new WhitelistChannelsRepository(tablePrefix, logging),
+      videoCategoryMappings: new VideoCategoryMappingsRepository(tablePrefix, logging),
     }
   },
 }
 
+/**
+ * Storage backend agnostic persistence service (the name is kept for historical reasons), implemented
+ * by `DynamodbService` (DynamoDB backend) & `SqlDatabaseService` (SQLite/PostgreSQL backend).
+ */
 export interface IDynamodbService {
   repo: IDynamodbClient
   channels: ChannelsService
@@ -40,15 +51,15 @@ export class DynamodbService implements IDynamodbService {
   readonly users: UsersService
   readonly videos: VideosService
 
-  constructor(aws?: ReadonlyConfig['aws']) {
-    const { repo, channels, users, videos } = this.init(aws)
+  constructor(aws: ReadonlyConfig['aws'] | undefined, logging: LoggingService) {
+    const { repo, channels, users, videos } = this.init(logging, aws)
     this.repo = repo
     this.channels = channels
     this.users = users
     this.videos = videos
   }
 
-  private init(aws?: ReadonlyConfig['aws']): IDynamodbService {
+  private init(logging: LoggingService, aws?: ReadonlyConfig['aws']): IDynamodbService {
     // configure Dynamoose to use DynamoDB Local.
     if (aws?.endpoint) {
       console.log(`Using local DynamoDB at ${aws.endpoint || `http://localhost:4566`}`)
@@ -75,7 +86,7 @@ export class DynamodbService implements IDynamodbService {
       dynamoose.aws.ddb.set(ddb)
     }
 
-    const repo = DynamodbClient.create(aws?.endpoint ? 'local_' : resourcePrefix)
+    const repo = DynamodbClient.create(aws?.endpoint ? 'local_' : resourcePrefix, logging)
     const channels = new ChannelsService(repo.channels)
     const users = new UsersService(repo.users)
     const videos = new VideosService(repo.videos)
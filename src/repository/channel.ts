@@ -4,8 +4,17 @@ import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { AnyItem } from 'dynamoose/dist/Item'
 import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
 import { omit } from 'ramda'
-import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
-import { ResourcePrefix, YtChannel, channelYppStatus } from '../types/youtube'
+import { Logger } from 'winston'
+import { DYNAMO_MODEL_OPTIONS, IRepository, ItemUpdate, mapTo } from '.'
+import {
+  ResourcePrefix,
+  UnavailableVideoPolicies,
+  VideoCategoryModes,
+  YtChannel,
+  channelYppStatus,
+  verifiedVariants,
+} from '../types/youtube'
+import { LoggingService } from '../services/logging'
 
 function createChannelModel(tablePrefix: ResourcePrefix) {
   const channelSchema = new dynamoose.Schema(
@@ -38,6 +47,13 @@ function createChannelModel(tablePrefix: ResourcePrefix) {
       // video category ID to be added to all synced videos
       videoCategoryId: String,
 
+      // Whether the synced videos are assigned the channel's video category or the one mapped from Youtube category
+      videoCategoryMode: {
+        type: String,
+        enum: Object.values(VideoCategoryModes),
+        default: VideoCategoryModes.Fixed,
+      },
+
       // default language of youtube channel
       language: String,
 
@@ -116,6 +132,22 @@ function createChannelModel(tablePrefix: ResourcePrefix) {
       // user refresh token that will be used to get new access token after expiration
       userRefreshToken: String,
 
+      // ID of the Youtube OAuth client the channel has been authorized through (primary client if not set)
+      oauthClientId: String,
+
+      // expiry date of the user access token (updated whenever the access token is refreshed)
+      userAccessTokenExpiry: {
+        type: {
+          value: Date,
+          settings: {
+            storage: 'iso',
+          },
+        },
+        get: (value: any) => {
+          return new Date(value)
+        },
+      },
+
       uploadsPlaylistId: String,
 
       // Should this channel be ingested for automated Youtube/Joystream syncing?
@@ -143,6 +175,78 @@ function createChannelModel(tablePrefix: ResourcePrefix) {
         enum: channelYppStatus,
       },
 
+      // Time since which the channel owner is required to re-authorize the app
+      reauthorizationRequiredAt: {
+        type: {
+          value: Date,
+          settings: {
+            storage: 'iso',
+          },
+        },
+        get: (value: any) => {
+          return new Date(value)
+        },
+      },
+
+      // Channel's YPP status before the re-authorization was required
+      yppStatusBeforeReauthorization: {
+        type: String,
+        enum: channelYppStatus,
+      },
+
+      // Action to take on Joystream when a synced video is deleted or made private on Youtube
+      unavailableVideoPolicy: {
+        type: String,
+        enum: Object.values(UnavailableVideoPolicies),
+        default: UnavailableVideoPolicies.Hide,
+      },
+
+      // Should the channel profile (title, description, avatar & banner) be synced to the Joystream channel? (opt-in)
+      syncChannelProfile: {
+        type: Boolean,
+        default: false,
+      },
+
+      // Should the replays (VODs) of channel's live-streams be synced?
+      syncLiveStreamReplays: {
+        type: Boolean,
+        default: false,
+      },
+
+      // Filters of the channel's videos to sync
+      syncFilters: {
+        type: Object,
+        schema: {
+          excludeShorts: Boolean,
+          minDuration: Number,
+          maxDuration: Number,
+          titleIncludePattern: String,
+          titleExcludePattern: String,
+          publishedAfter: String,
+          onlyNewVideos: Boolean,
+        },
+      },
+
+      // Sync limits of the channel set by the operator (overriding the limits policy)
+      limitsOverride: {
+        type: Object,
+        schema: {
+          videoCap: Number,
+          sizeCap: Number,
+        },
+      },
+
+      // Channel profile that was last synced to the Joystream channel
+      lastSyncedProfile: {
+        type: Object,
+        schema: {
+          title: String,
+          description: String,
+          avatarUrl: String,
+          bannerUrl: String,
+        },
+      },
+
       phantomKey: {
         type: String,
         index: {
@@ -182,22 +286,83 @@ function createChannelModel(tablePrefix: ResourcePrefix) {
   return dynamoose.model(`${tablePrefix}channels`, channelSchema, DYNAMO_MODEL_OPTIONS)
 }
 
-export class ChannelsRepository implements IRepository<YtChannel> {
+export type ChannelUpdate = ItemUpdate<YtChannel, 'id' | 'userId'>
+
+export interface IChannelsRepository extends IRepository<YtChannel, 'id' | 'userId'> {
+  get(id: string): Promise<YtChannel | undefined>
+  delete(id: string, userId: string): Promise<void>
+
+  // Updates the channel only if its current YPP status is the given one (so that the concurrent change of the
+  // status, e.g. by the channel's re-authorization, isn't overwritten), returns `undefined` if not updated
+  saveIfYppStatus(channel: ChannelUpdate, yppStatus: YtChannel['yppStatus']): Promise<YtChannel | undefined>
+
+  // Returns all channels of the given user
+  getByUserId(userId: string): Promise<YtChannel[]>
+
+  // Returns all channels (optionally only the ones with given YPP statuses) with given Joystream channel ID,
+  // newest first (`joystreamChannelId-createdAt-index`)
+  getByJoystreamChannelId(joystreamChannelId: number, yppStatuses?: YtChannel['yppStatus'][]): Promise<YtChannel[]>
+
+  // Returns all channels with any of the given YPP statuses
+  getByYppStatus(yppStatuses: YtChannel['yppStatus'][]): Promise<YtChannel[]>
+
+  // Returns all channels referred by given Joystream channel
+  getByReferrerChannelId(referrerChannelId: number): Promise<YtChannel[]>
+
+  // Returns `count` most recently created channels, newest first (`phantomKey-createdAt-index`)
+  getRecent(count: number): Promise<YtChannel[]>
+}
+
+export class ChannelsRepository implements IChannelsRepository {
   private model
+  private logger: Logger
 
   // lock any updates on video table
   private readonly ASYNC_LOCK_ID = 'channel'
   private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
 
-  constructor(tablePrefix: ResourcePrefix) {
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
     this.model = createChannelModel(tablePrefix)
+    this.logger = logging.createLogger('ChannelsRepository')
   }
 
-  async upsertAll(channels: YtChannel[]): Promise<YtChannel[]> {
+  async upsertAll(channels: ChannelUpdate[]): Promise<YtChannel[]> {
     const results = await Promise.all(channels.map(async (channel) => await this.save(channel)))
     return results
   }
 
+  async scanAll(): Promise<YtChannel[]> {
+    return this.scan({}, (s) => s)
+  }
+
+  async getByUserId(userId: string): Promise<YtChannel[]> {
+    return this.query({ userId }, (q) => q)
+  }
+
+  async getByJoystreamChannelId(
+    joystreamChannelId: number,
+    yppStatuses?: YtChannel['yppStatus'][]
+  ): Promise<YtChannel[]> {
+    return this.query({ joystreamChannelId }, (q) => {
+      const query = q.sort('descending').using('joystreamChannelId-createdAt-index')
+      return yppStatuses ? query.filter('yppStatus').in(yppStatuses) : query
+    })
+  }
+
+  async getByYppStatus(yppStatuses: YtChannel['yppStatus'][]): Promise<YtChannel[]> {
+    return this.scan({}, (s) => s.filter('yppStatus').in(yppStatuses))
+  }
+
+  async getByReferrerChannelId(referrerChannelId: number): Promise<YtChannel[]> {
+    return this.query({ referrerChannelId }, (q) => q.sort('descending').using('referrerChannelId-index'))
+  }
+
+  async getRecent(count: number): Promise<YtChannel[]> {
+    return this.query({ phantomKey: 'phantomData' }, (q) =>
+      q.sort('descending').limit(count).using('phantomKey-createdAt-index')
+    )
+  }
+
   async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<YtChannel[]> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       let lastKey = undefined
@@ -221,7 +386,7 @@ export class ChannelsRepository implements IRepository<YtChannel> {
     })
   }
 
-  async save(channel: YtChannel): Promise<YtChannel> {
+  async save(channel: ChannelUpdate): Promise<YtChannel> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const update = omit(['id', 'userId', 'updatedAt'], channel)
       const result = await this.model.update({ id: channel.id, userId: channel.userId }, update)
@@ -229,11 +394,28 @@ export class ChannelsRepository implements IRepository<YtChannel> {
     })
   }
 
+  async saveIfYppStatus(channel: ChannelUpdate, yppStatus: YtChannel['yppStatus']): Promise<YtChannel | undefined> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const update = omit(['id', 'userId', 'updatedAt'], channel)
+      try {
+        const result = await this.model.update({ id: channel.id, userId: channel.userId }, update, {
+          condition: new dynamoose.Condition('yppStatus').eq(yppStatus),
+        })
+        return mapTo<YtChannel>(result)
+      } catch (err) {
+        if ((err as Error).name === 'ConditionalCheckFailedException') {
+          return undefined
+        }
+        throw err
+      }
+    })
+  }
+
   async batchSave(videos: YtChannel[]): Promise<void> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const result = await this.model.batchPut(videos)
       if (result.unprocessedItems.length) {
-        console.log('Unprocessed items', result.unprocessedItems.length)
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
         return await this.batchSave(result.unprocessedItems as YtChannel[])
       }
     })
@@ -264,16 +446,14 @@ export class ChannelsRepository implements IRepository<YtChannel> {
 }
 
 export class ChannelsService {
-  constructor(private channelsRepository: ChannelsRepository) {}
+  constructor(private channelsRepository: IChannelsRepository) {}
 
   /**
    * @param joystreamChannelId
    * @returns Returns channel by joystreamChannelId
    */
   async getByJoystreamId(joystreamChannelId: number): Promise<YtChannel> {
-    const [result] = await this.channelsRepository.query({ joystreamChannelId }, (q) =>
-      q.sort('descending').using('joystreamChannelId-createdAt-index')
-    )
+    const [result] = await this.channelsRepository.getByJoystreamChannelId(joystreamChannelId)
     if (!result) {
       throw new Error(`Could not find channel with id ${joystreamChannelId}`)
     }
@@ -285,17 +465,12 @@ export class ChannelsService {
    * @returns Returns partner channel by joystreamChannelId (if any)
    */
   async findPartnerChannelByJoystreamId(joystreamChannelId: number): Promise<YtChannel | undefined> {
-    const [result] = await this.channelsRepository.query({ joystreamChannelId }, (q) =>
-      q
-        .sort('descending')
-        .filter('yppStatus')
-        .eq('Verified')
-        .or()
-        .filter('yppStatus')
-        .eq('Unverified')
-        .using('joystreamChannelId-createdAt-index')
-    )
-    return result || undefined
+    const [result] = await this.channelsRepository.getByJoystreamChannelId(joystreamChannelId, [
+      'Unverified',
+      ...verifiedVariants,
+      'ReauthorizationRequired',
+    ])
+    return result
   }
 
   /**
@@ -303,10 +478,7 @@ export class ChannelsService {
    * @returns Returns list of all channels referred by given joystream channel
    */
   async getReferredChannels(referrerChannelId: number): Promise<YtChannel[]> {
-    const results = await this.channelsRepository.query({ referrerChannelId }, (q) =>
-      q.sort('descending').using('referrerChannelId-index')
-    )
-    return results
+    return this.channelsRepository.getByReferrerChannelId(referrerChannelId)
   }
 
   /**
@@ -326,7 +498,7 @@ export class ChannelsService {
    * @returns Returns channel by userId
    */
   async getByUserId(userId: string): Promise<YtChannel> {
-    const [result] = await this.channelsRepository.query('userId', (q) => q.eq(userId))
+    const [result] = await this.channelsRepository.getByUserId(userId)
     if (!result) {
       throw new Error(`Could not find user with id ${userId}`)
     }
@@ -338,7 +510,7 @@ export class ChannelsService {
    * @returns List of Channels for given user
    */
   async getAll(userId: string): Promise<YtChannel[]> {
-    return await this.channelsRepository.query({ userId }, (q) => q)
+    return await this.channelsRepository.getByUserId(userId)
   }
 
   /**
@@ -346,9 +518,7 @@ export class ChannelsService {
    * @returns List of `n` recent verified channels
    */
   async getRecent(count: number): Promise<YtChannel[]> {
-    return this.channelsRepository.query({ phantomKey: 'phantomData' }, (q) =>
-      q.sort('descending').limit(count).using('phantomKey-createdAt-index')
-    )
+    return this.channelsRepository.getRecent(count)
   }
 
   /**
@@ -356,7 +526,7 @@ export class ChannelsService {
    * @param channel
    * @returns Updated channel
    */
-  async save(channel: YtChannel): Promise<YtChannel> {
+  async save(channel: ChannelUpdate): Promise<YtChannel> {
     return await this.channelsRepository.save(channel)
   }
 
@@ -1,10 +1,11 @@
-import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { DeepPartial } from 'dynamoose/dist/General'
 import { AnyItem } from 'dynamoose/dist/Item'
-import { Query, Scan } from 'dynamoose/dist/ItemRetriever'
 import { TableOptions } from 'dynamoose/dist/Table'
 export * from './channel'
+export * from './DatabaseService'
 export * from './DynamodbService'
+export * from './playlist'
+export * from './sql'
 export * from './stats'
 export * from './user'
 export * from './video'
@@ -17,11 +18,21 @@ export function mapTo<TEntity>(doc: AnyItem) {
   return doc.serialize() as TEntity
 }
 
-export interface IRepository<T> {
-  get(partition: string, id: string): Promise<T | undefined>
-  save(model: T, partition: string): Promise<T>
-  delete(partition: string, id: string): Promise<void>
-  query(init: ConditionInitializer, f: (q: Query<AnyItem>) => Query<AnyItem>): Promise<T[]>
-  scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<T[]>
-  upsertAll(items: T[]): Promise<T[]>
+// Key attributes of the item & (only) the attributes to update
+export type ItemUpdate<T, TKey extends keyof T> = Pick<T, TKey> & Partial<T>
+
+/**
+ * Storage agnostic repository interface, implemented by both the DynamoDB & the SQL repositories.
+ * Entity specific access patterns (e.g. secondary indexes) are defined by the extending interfaces.
+ */
+export interface IRepository<T, TKey extends keyof T = keyof T> {
+  // Returns all the items in the repository
+  scanAll(): Promise<T[]>
+
+  // Creates or partially updates the item (only the given attributes, the ones set to `undefined` are removed)
+  save(item: ItemUpdate<T, TKey>): Promise<T>
+  upsertAll(items: ItemUpdate<T, TKey>[]): Promise<T[]>
+
+  // Creates or replaces the items
+  batchSave(items: T[]): Promise<void>
 }
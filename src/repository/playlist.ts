@@ -0,0 +1,194 @@
+import AsyncLock from 'async-lock'
+import * as dynamoose from 'dynamoose'
+import { ConditionInitializer } from 'dynamoose/dist/Condition'
+import { ObjectType } from 'dynamoose/dist/General'
+import { AnyItem } from 'dynamoose/dist/Item'
+import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
+import { omit } from 'ramda'
+import { Logger } from 'winston'
+import { DYNAMO_MODEL_OPTIONS, IRepository, ItemUpdate, mapTo } from '.'
+import { ResourcePrefix, YtPlaylist } from '../types/youtube'
+import { LoggingService } from '../services/logging'
+
+function playlistRepository(tablePrefix: ResourcePrefix) {
+  const playlistSchema = new dynamoose.Schema(
+    {
+      // ID of the playlist
+      id: {
+        type: String,
+        rangeKey: true,
+      },
+
+      // Channel ID of the associated playlist
+      channelId: {
+        type: String,
+        hashKey: true,
+      },
+
+      // Playlist's title
+      title: String,
+
+      // Playlist's description
+      description: String,
+
+      thumbnails: {
+        type: Object,
+        schema: {
+          default: String,
+          medium: String,
+          high: String,
+          maxRes: String,
+          standard: String,
+        },
+      },
+
+      // IDs of the playlist videos (in the same order as on Youtube)
+      videoIds: {
+        type: Array,
+        schema: [String],
+      },
+
+      // ETag of the playlist resource
+      etag: String,
+
+      // No. of the playlist items
+      itemCount: Number,
+
+      // ID of the corresponding Joystream Channel (De-normalized from Channel table)
+      joystreamChannelId: Number,
+
+      // Playlist creation date on youtube
+      publishedAt: String,
+    },
+    {
+      saveUnknown: false,
+      timestamps: {
+        createdAt: {
+          createdAt: {
+            type: {
+              value: Date,
+              settings: {
+                storage: 'iso',
+              },
+            },
+          },
+        },
+        updatedAt: {
+          updatedAt: {
+            type: {
+              value: Date,
+              settings: {
+                storage: 'iso',
+              },
+            },
+          },
+        },
+      },
+    }
+  )
+  return dynamoose.model(`${tablePrefix}playlists`, playlistSchema, DYNAMO_MODEL_OPTIONS)
+}
+
+export type PlaylistUpdate = ItemUpdate<YtPlaylist, 'id' | 'channelId'>
+
+export interface IPlaylistsRepository extends IRepository<YtPlaylist, 'id' | 'channelId'> {
+  get(channelId: string, id: string): Promise<YtPlaylist | undefined>
+  delete(channelId: string, id: string): Promise<void>
+
+  // Returns all playlists of the given Youtube channel
+  getByChannelId(channelId: string): Promise<YtPlaylist[]>
+}
+
+export class PlaylistsRepository implements IPlaylistsRepository {
+  private model
+  private logger: Logger
+
+  // lock any updates on playlist table
+  private readonly ASYNC_LOCK_ID = 'playlist'
+  private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
+
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
+    this.model = playlistRepository(tablePrefix)
+    this.logger = logging.createLogger('PlaylistsRepository')
+  }
+
+  async upsertAll(playlists: PlaylistUpdate[]): Promise<YtPlaylist[]> {
+    const results = await Promise.all(playlists.map(async (playlist) => await this.save(playlist)))
+    return results
+  }
+
+  async scanAll(): Promise<YtPlaylist[]> {
+    return this.scan({}, (s) => s)
+  }
+
+  async getByChannelId(channelId: string): Promise<YtPlaylist[]> {
+    return this.query({ channelId }, (q) => q)
+  }
+
+  async batchSave(playlists: YtPlaylist[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.batchPut(playlists)
+      if (result.unprocessedItems.length) {
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
+        return await this.batchSave(result.unprocessedItems as YtPlaylist[])
+      }
+    })
+  }
+
+  async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<YtPlaylist[]> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      let lastKey: ObjectType | undefined = undefined
+      const results = []
+      do {
+        const request = f(this.model.scan(init))
+        let scannedBatch: ScanResponse<AnyItem> = await (lastKey ? request.startAt(lastKey) : request).exec()
+        let batchResult = scannedBatch.map((b) => mapTo<YtPlaylist>(b))
+        results.push(...batchResult)
+        lastKey = scannedBatch.lastKey
+      } while (lastKey)
+      return results
+    })
+  }
+
+  /**
+   *
+   * @param channelId channel id to get playlist for
+   * @param id ID of the playlist
+   * @returns
+   */
+  async get(channelId: string, id: string): Promise<YtPlaylist | undefined> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.get({ channelId, id })
+      return result ? mapTo<YtPlaylist>(result) : undefined
+    })
+  }
+
+  async save(playlist: PlaylistUpdate): Promise<YtPlaylist> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const upd = omit(['id', 'channelId', 'updatedAt'], playlist)
+      const result = await this.model.update({ channelId: playlist.channelId, id: playlist.id }, upd)
+      return mapTo<YtPlaylist>(result)
+    })
+  }
+
+  async delete(channelId: string, id: string): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      await this.model.delete({ id, channelId })
+    })
+  }
+
+  async query(init: ConditionInitializer, f: (q: Query<AnyItem>) => Query<AnyItem>): Promise<YtPlaylist[]> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      let lastKey: ObjectType | undefined = undefined
+      const results = []
+      do {
+        const request = f(this.model.query(init))
+        let queriedBatch: QueryResponse<AnyItem> = await (lastKey ? request.startAt(lastKey) : request).exec()
+        let batchResult = queriedBatch.map((b) => mapTo<YtPlaylist>(b))
+        results.push(...batchResult)
+        lastKey = queriedBatch.lastKey
+      } while (lastKey)
+      return results
+    })
+  }
+}
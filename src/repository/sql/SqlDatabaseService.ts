@@ -0,0 +1,43 @@
+import { ChannelsService } from '../channel'
+import { IDynamodbClient, IDynamodbService } from '../DynamodbService'
+import { UsersService } from '../user'
+import { VideosService } from '../video'
+import { resourcePrefix } from '../../types/youtube'
+import { SqlChannelsRepository } from './channel'
+import { SqlClient, SqlDatabaseConfig } from './client'
+import { SqlPlaylistsRepository } from './playlist'
+import { SqlStatsRepository } from './stats'
+import { SqlUsersRepository } from './user'
+import { SqlVideosRepository } from './video'
+import { SqlVideoCategoryMappingsRepository } from './videoCategoryMappings'
+import { SqlWhitelistChannelsRepository } from './whitelistChannels'
+
+// SQLite/PostgreSQL backed persistence service
+export class SqlDatabaseService implements IDynamodbService {
+  readonly repo: IDynamodbClient
+  readonly channels: ChannelsService
+  readonly users: UsersService
+  readonly videos: VideosService
+  private client: SqlClient
+
+  constructor(config: SqlDatabaseConfig) {
+    this.client = new SqlClient(config, resourcePrefix)
+    this.repo = {
+      channels: new SqlChannelsRepository(this.client),
+      users: new SqlUsersRepository(this.client),
+      videos: new SqlVideosRepository(this.client),
+      playlists: new SqlPlaylistsRepository(this.client),
+      stats: new SqlStatsRepository(this.client),
+      whitelistChannels: new SqlWhitelistChannelsRepository(this.client),
+      videoCategoryMappings: new SqlVideoCategoryMappingsRepository(this.client),
+    }
+    this.channels = new ChannelsService(this.repo.channels)
+    this.users = new UsersService(this.repo.users)
+    this.videos = new VideosService(this.repo.videos)
+  }
+
+  // Closes the database connection
+  async destroy(): Promise<void> {
+    await this.client.destroy()
+  }
+}
@@ -0,0 +1,47 @@
+import { ChannelUpdate, IChannelsRepository } from '../channel'
+import { YtChannel } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlChannelsRepository extends SqlRepository<YtChannel, 'id' | 'userId'> implements IChannelsRepository {
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.channels)
+  }
+
+  async get(id: string): Promise<YtChannel | undefined> {
+    return this.findOne({ id })
+  }
+
+  async saveIfYppStatus(channel: ChannelUpdate, yppStatus: YtChannel['yppStatus']): Promise<YtChannel | undefined> {
+    return this.saveIf(channel, (existing) => existing?.yppStatus === yppStatus)
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    return this.remove({ id, userId })
+  }
+
+  async getByUserId(userId: string): Promise<YtChannel[]> {
+    return this.find({ userId })
+  }
+
+  async getByJoystreamChannelId(
+    joystreamChannelId: number,
+    yppStatuses?: YtChannel['yppStatus'][]
+  ): Promise<YtChannel[]> {
+    return this.find({ joystreamChannelId }, (q) =>
+      (yppStatuses ? q.whereIn('yppStatus', yppStatuses) : q).orderBy('createdAt', 'desc')
+    )
+  }
+
+  async getByYppStatus(yppStatuses: YtChannel['yppStatus'][]): Promise<YtChannel[]> {
+    return this.find({}, (q) => q.whereIn('yppStatus', yppStatuses))
+  }
+
+  async getByReferrerChannelId(referrerChannelId: number): Promise<YtChannel[]> {
+    return this.find({ referrerChannelId }, (q) => q.orderBy('createdAt', 'desc'))
+  }
+
+  async getRecent(count: number): Promise<YtChannel[]> {
+    return this.find({}, (q) => q.orderBy('createdAt', 'desc').limit(count))
+  }
+}
@@ -0,0 +1,217 @@
+import { Knex, knex } from 'knex'
+import _ from 'lodash'
+import { ReadonlyConfig } from '../../types'
+import { ResourcePrefix, UnavailableVideoPolicies, VideoCategoryModes } from '../../types/youtube'
+
+export type SqlDatabaseConfig = NonNullable<ReadonlyConfig['database']>
+
+type SqlColumnType = 'string' | 'integer'
+
+/**
+ * SQL table definition. Every item is stored as a JSON document in the `data` column, while its key attributes
+ * & the attributes used by the access patterns (equivalents of the DynamoDB secondary indexes) are additionally
+ * stored in the dedicated columns. Hence adding new attributes to the entities doesn't require schema migrations.
+ */
+export type SqlTable = {
+  name: string
+
+  primaryKey: string[]
+
+  // attributes that are stored in the dedicated columns
+  columns: Record<string, SqlColumnType>
+
+  // secondary indexes (list of the columns)
+  indexes: string[][]
+
+  // attributes that are represented as `Date` objects in the entity
+  dateAttributes: string[]
+
+  // automatically maintained timestamps of the items
+  timestamps: ('createdAt' | 'updatedAt')[]
+
+  // default values of the attributes that are applied when an item is created
+  defaults?: Record<string, unknown>
+}
+
+export const SQL_TABLES: Record<
+  'channels' | 'users' | 'videos' | 'playlists' | 'stats' | 'whitelistChannels' | 'videoCategoryMappings',
+  SqlTable
+> = {
+  channels: {
+    name: 'channels',
+    primaryKey: ['userId', 'id'],
+    columns: {
+      id: 'string',
+      userId: 'string',
+      joystreamChannelId: 'integer',
+      referrerChannelId: 'integer',
+      yppStatus: 'string',
+      createdAt: 'string',
+    },
+    indexes: [['id'], ['joystreamChannelId', 'createdAt'], ['referrerChannelId'], ['yppStatus'], ['createdAt']],
+    dateAttributes: ['createdAt', 'updatedAt', 'lastActedAt', 'userAccessTokenExpiry', 'reauthorizationRequiredAt'],
+    timestamps: ['createdAt', 'updatedAt'],
+    defaults: {
+      shouldBeIngested: true,
+      allowOperatorIngestion: true,
+      performUnauthorizedSync: false,
+      unavailableVideoPolicy: UnavailableVideoPolicies.Hide,
+      videoCategoryMode: VideoCategoryModes.Fixed,
+      syncChannelProfile: false,
+      syncLiveStreamReplays: false,
+    },
+  },
+  users: {
+    name: 'users',
+    primaryKey: ['id'],
+    columns: { id: 'string', email: 'string' },
+    indexes: [['email']],
+    dateAttributes: ['createdAt', 'updatedAt', 'accessTokenExpiry'],
+    timestamps: ['createdAt', 'updatedAt'],
+  },
+  videos: {
+    name: 'videos',
+    primaryKey: ['channelId', 'id'],
+    columns: { id: 'string', channelId: 'string', state: 'string', publishedAt: 'string' },
+    indexes: [['state', 'publishedAt']],
+    dateAttributes: ['createdAt', 'updatedAt'],
+    timestamps: ['createdAt', 'updatedAt'],
+  },
+  playlists: {
+    name: 'playlists',
+    primaryKey: ['channelId', 'id'],
+    columns: { id: 'string', channelId: 'string' },
+    indexes: [],
+    dateAttributes: ['createdAt', 'updatedAt'],
+    timestamps: ['createdAt', 'updatedAt'],
+  },
+  stats: {
+    name: 'stats',
+    primaryKey: ['partition', 'date'],
+    columns: { partition: 'string', date: 'string', syncQuotaUsed: 'integer', signupQuotaUsed: 'integer' },
+    indexes: [],
+    dateAttributes: [],
+    timestamps: [],
+  },
+  whitelistChannels: {
+    name: 'whitelistChannels',
+    primaryKey: ['channelHandle'],
+    columns: { channelHandle: 'string' },
+    indexes: [],
+    dateAttributes: ['createdAt'],
+    timestamps: ['createdAt'],
+  },
+  videoCategoryMappings: {
+    name: 'videoCategoryMappings',
+    primaryKey: ['ytCategoryId'],
+    columns: { ytCategoryId: 'string' },
+    indexes: [],
+    dateAttributes: ['createdAt', 'updatedAt'],
+    timestamps: ['createdAt', 'updatedAt'],
+  },
+}
+
+function addColumn(t: Knex.CreateTableBuilder, column: string, type: SqlColumnType) {
+  if (type === 'integer') {
+    t.integer(column)
+  } else {
+    t.string(column)
+  }
+}
+
+function knexConfig({ type, connection }: SqlDatabaseConfig): Knex.Config {
+  if (!connection) {
+    throw new Error(`Missing 'database.connection' config for '${type}' database`)
+  }
+
+  if (type === 'sqlite') {
+    return { client: 'better-sqlite3', connection: { filename: connection }, useNullAsDefault: true }
+  } else if (type === 'postgres') {
+    return { client: 'pg', connection }
+  }
+  throw new Error(`Unsupported SQL database type: ${type}`)
+}
+
+export class SqlClient {
+  private readonly knex: Knex
+  private schemaReady: Promise<void> | undefined
+
+  constructor(config: SqlDatabaseConfig, private tablePrefix: ResourcePrefix) {
+    this.knex = knex(knexConfig(config))
+  }
+
+  tableName(table: SqlTable): string {
+    return `${this.tablePrefix}${table.name}`
+  }
+
+  /**
+   * @returns database connection, the missing tables (& the missing dedicated columns of the existing tables)
+   * are created before the first use of the connection
+   */
+  async connection(): Promise<Knex> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.ensureSchema().catch((err) => {
+        this.schemaReady = undefined
+        throw err
+      })
+    }
+    await this.schemaReady
+    return this.knex
+  }
+
+  async destroy(): Promise<void> {
+    await this.knex.destroy()
+  }
+
+  private async ensureSchema() {
+    for (const table of Object.values(SQL_TABLES)) {
+      const tableName = this.tableName(table)
+      if (await this.knex.schema.hasTable(tableName)) {
+        await this.addMissingColumns(table)
+        continue
+      }
+
+      await this.knex.schema.createTable(tableName, (t) => {
+        for (const [column, type] of Object.entries(table.columns)) {
+          addColumn(t, column, type)
+        }
+        t.text('data').notNullable()
+        t.primary(table.primaryKey)
+        table.indexes.forEach((columns) => t.index(columns))
+      })
+    }
+  }
+
+  // Adds the dedicated columns (& their indexes) that were introduced after the table was created,
+  // and populates them from the stored JSON documents
+  private async addMissingColumns(table: SqlTable) {
+    const tableName = this.tableName(table)
+    const missingColumns: string[] = []
+    for (const column of Object.keys(table.columns)) {
+      if (!(await this.knex.schema.hasColumn(tableName, column))) {
+        missingColumns.push(column)
+      }
+    }
+    if (!missingColumns.length) {
+      return
+    }
+
+    await this.knex.schema.alterTable(tableName, (t) => {
+      missingColumns.forEach((column) => addColumn(t, column, table.columns[column]))
+      table.indexes
+        .filter((columns) => columns.some((column) => missingColumns.includes(column)))
+        .forEach((columns) => t.index(columns))
+    })
+
+    await this.knex.transaction(async (trx) => {
+      const rows: { data: string }[] = await trx(tableName).select([...table.primaryKey, 'data'])
+      for (const row of rows) {
+        const item = JSON.parse(row.data)
+        const key = _.pick(row, table.primaryKey)
+        await trx(tableName)
+          .where(key)
+          .update(Object.fromEntries(missingColumns.map((column) => [column, item[column] ?? null])))
+      }
+    })
+  }
+}
@@ -0,0 +1,25 @@
+import { IPlaylistsRepository } from '../playlist'
+import { YtPlaylist } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlPlaylistsRepository
+  extends SqlRepository<YtPlaylist, 'id' | 'channelId'>
+  implements IPlaylistsRepository
+{
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.playlists)
+  }
+
+  async get(channelId: string, id: string): Promise<YtPlaylist | undefined> {
+    return this.findOne({ channelId, id })
+  }
+
+  async delete(channelId: string, id: string): Promise<void> {
+    return this.remove({ channelId, id })
+  }
+
+  async getByChannelId(channelId: string): Promise<YtPlaylist[]> {
+    return this.find({ channelId })
+  }
+}
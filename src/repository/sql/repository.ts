@@ -0,0 +1,156 @@
+import AsyncLock from 'async-lock'
+import { Knex } from 'knex'
+import _ from 'lodash'
+import { IRepository, ItemUpdate } from '..'
+import { SqlClient, SqlTable } from './client'
+
+type Row = Record<string, unknown> & { data: string }
+
+/**
+ * Base class of the SQL repositories, implements the storage of the items as JSON documents
+ * (see `SqlTable`) & the common `IRepository` operations.
+ */
+export abstract class SqlRepository<T extends object, TKey extends keyof T = keyof T> implements IRepository<T, TKey> {
+  // lock any updates on the table
+  private readonly ASYNC_LOCK_ID: string
+  private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
+
+  constructor(protected client: SqlClient, private table: SqlTable) {
+    this.ASYNC_LOCK_ID = table.name
+  }
+
+  private get tableName(): string {
+    return this.client.tableName(this.table)
+  }
+
+  async scanAll(): Promise<T[]> {
+    return this.find({})
+  }
+
+  async save(item: ItemUpdate<T, TKey>): Promise<T> {
+    return (await this.saveIf(item, () => true)) as T
+  }
+
+  /**
+   * Updates the item only if the existing item (read in the same transaction) satisfies the condition
+   * @returns updated item, or `undefined` if the condition isn't satisfied
+   */
+  protected async saveIf(
+    item: ItemUpdate<T, TKey>,
+    condition: (existing: T | undefined) => boolean
+  ): Promise<T | undefined> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const knex = await this.client.connection()
+      return knex.transaction(async (trx) => {
+        const [row] = await trx(this.tableName).where(this.key(item)).limit(1)
+        const existing = row ? this.fromRow(row) : undefined
+        if (!condition(existing)) {
+          return undefined
+        }
+
+        // only update the attributes that are defined, the attributes explicitly set to `undefined` are removed
+        // (or reset to their default value), same as by the DynamoDB update
+        const definedAttributes = Object.fromEntries(Object.entries(item).filter(([, v]) => v !== undefined))
+        const removedAttributes = Object.keys(item).filter((k) => (item as Record<string, unknown>)[k] === undefined)
+        const updated = {
+          ..._.omit(existing || this.table.defaults, removedAttributes),
+          ..._.pick(this.table.defaults, removedAttributes),
+          ...definedAttributes,
+        } as T
+        return this.upsert(trx, this.withTimestamps(updated, true))
+      })
+    })
+  }
+
+  async upsertAll(items: ItemUpdate<T, TKey>[]): Promise<T[]> {
+    const results = await Promise.all(items.map(async (item) => await this.save(item)))
+    return results
+  }
+
+  async batchSave(items: T[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const knex = await this.client.connection()
+      await knex.transaction(async (trx) => {
+        for (const item of items) {
+          await this.upsert(trx, this.withTimestamps(item, false))
+        }
+      })
+    })
+  }
+
+  protected async find(
+    where: Record<string, unknown>,
+    f: (q: Knex.QueryBuilder) => Knex.QueryBuilder = (q) => q
+  ): Promise<T[]> {
+    const knex = await this.client.connection()
+    const rows: Row[] = await f(knex(this.tableName).where(where))
+    return rows.map((row) => this.fromRow(row))
+  }
+
+  protected async findOne(where: Record<string, unknown>): Promise<T | undefined> {
+    const [item] = await this.find(where, (q) => q.limit(1))
+    return item
+  }
+
+  protected async remove(where: Record<string, unknown>): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const knex = await this.client.connection()
+      await knex(this.tableName).where(where).delete()
+    })
+  }
+
+  // Runs the update query (e.g. atomic increment) on the dedicated columns of the item
+  protected async update(where: Record<string, unknown>, f: (q: Knex.QueryBuilder) => Knex.QueryBuilder) {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const knex = await this.client.connection()
+      await f(knex(this.tableName).where(where))
+    })
+  }
+
+  private key(item: ItemUpdate<T, TKey>): Record<string, unknown> {
+    return Object.fromEntries(this.table.primaryKey.map((k) => [k, (item as Record<string, unknown>)[k]]))
+  }
+
+  private withTimestamps(item: T, isUpdate: boolean): T {
+    const now = new Date()
+    const timestamps: Record<string, Date> = {}
+    for (const timestamp of this.table.timestamps) {
+      const value = (item as Record<string, unknown>)[timestamp]
+      timestamps[timestamp] = timestamp === 'updatedAt' && isUpdate ? now : (value as Date) || now
+    }
+    return { ...item, ...timestamps }
+  }
+
+  private async upsert(trx: Knex.Transaction, item: T): Promise<T> {
+    const row = this.toRow(item)
+    await trx(this.tableName).insert(row).onConflict(this.table.primaryKey).merge()
+    return this.fromRow(row)
+  }
+
+  private toRow(item: T): Row {
+    const attributes = item as Record<string, unknown>
+    const columns = Object.keys(this.table.columns).map((column) => {
+      const value = attributes[column]
+      return [column, value instanceof Date ? value.toISOString() : value ?? null]
+    })
+    return { ...Object.fromEntries(columns), data: JSON.stringify(item) }
+  }
+
+  private fromRow({ data, ...columns }: Row): T {
+    const item = JSON.parse(data)
+
+    // dedicated columns take precedence over the document attributes (e.g. atomically incremented counters)
+    for (const column of Object.keys(this.table.columns)) {
+      if (columns[column] !== null && columns[column] !== undefined) {
+        item[column] = columns[column]
+      }
+    }
+
+    for (const attribute of this.table.dateAttributes) {
+      if (item[attribute]) {
+        item[attribute] = new Date(item[attribute])
+      }
+    }
+    return item
+  }
+}
@@ -0,0 +1,33 @@
+import { IStatsRepository, QuotaUsageIncrement, statsPartition, todaysStatsDate } from '../stats'
+import { Stats } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlStatsRepository extends SqlRepository<Stats> implements IStatsRepository {
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.stats)
+  }
+
+  async get(date: string, clientId?: string): Promise<Stats | undefined> {
+    return this.findOne({ partition: statsPartition(clientId), date })
+  }
+
+  async getOrSetTodaysStats(clientId?: string): Promise<Stats> {
+    const today = todaysStatsDate()
+    const stats = await this.get(today, clientId)
+    return (
+      stats ||
+      this.save({ partition: statsPartition(clientId), date: today, syncQuotaUsed: 0, signupQuotaUsed: 0, clientId })
+    )
+  }
+
+  async increaseQuotaUsage(
+    date: string,
+    { syncQuotaIncrement = 0, signupQuotaIncrement = 0 }: QuotaUsageIncrement,
+    clientId?: string
+  ): Promise<void> {
+    await this.update({ partition: statsPartition(clientId), date }, (q) =>
+      q.increment({ syncQuotaUsed: syncQuotaIncrement, signupQuotaUsed: signupQuotaIncrement })
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { IUsersRepository } from '../user'
+import { YtUser } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlUsersRepository extends SqlRepository<YtUser, 'id'> implements IUsersRepository {
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.users)
+  }
+
+  async get(id: string): Promise<YtUser | undefined> {
+    return this.findOne({ id })
+  }
+
+  async delete(id: string): Promise<void> {
+    return this.remove({ id })
+  }
+
+  async searchByEmail(search: string): Promise<YtUser[]> {
+    // escape the LIKE wildcards, so the search string is matched literally
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`
+    return this.find({}, (q) => (search ? q.whereRaw(`?? like ? escape '\\'`, ['email', pattern]) : q))
+  }
+}
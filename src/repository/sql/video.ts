@@ -0,0 +1,26 @@
+import { IVideosRepository } from '../video'
+import { VideoState, YtVideo } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlVideosRepository extends SqlRepository<YtVideo, 'id' | 'channelId'> implements IVideosRepository {
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.videos)
+  }
+
+  async get(channelId: string, id: string): Promise<YtVideo | undefined> {
+    return this.findOne({ channelId, id })
+  }
+
+  async delete(channelId: string, id: string): Promise<void> {
+    return this.remove({ channelId, id })
+  }
+
+  async getByChannelId(channelId: string): Promise<YtVideo[]> {
+    return this.find({ channelId })
+  }
+
+  async getByState(state: VideoState): Promise<YtVideo[]> {
+    return this.find({ state }, (q) => q.orderBy('publishedAt', 'asc'))
+  }
+}
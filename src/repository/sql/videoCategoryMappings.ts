@@ -0,0 +1,21 @@
+import { IVideoCategoryMappingsRepository } from '../videoCategoryMappings'
+import { VideoCategoryMapping } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlVideoCategoryMappingsRepository
+  extends SqlRepository<VideoCategoryMapping>
+  implements IVideoCategoryMappingsRepository
+{
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.videoCategoryMappings)
+  }
+
+  async get(ytCategoryId: string): Promise<VideoCategoryMapping | undefined> {
+    return this.findOne({ ytCategoryId })
+  }
+
+  async delete(ytCategoryId: string): Promise<void> {
+    return this.remove({ ytCategoryId })
+  }
+}
@@ -0,0 +1,21 @@
+import { IWhitelistChannelsRepository } from '../whitelistChannels'
+import { WhitelistChannel } from '../../types/youtube'
+import { SQL_TABLES, SqlClient } from './client'
+import { SqlRepository } from './repository'
+
+export class SqlWhitelistChannelsRepository
+  extends SqlRepository<WhitelistChannel>
+  implements IWhitelistChannelsRepository
+{
+  constructor(client: SqlClient) {
+    super(client, SQL_TABLES.whitelistChannels)
+  }
+
+  async get(channelHandle: string): Promise<WhitelistChannel | undefined> {
+    return this.findOne({ channelHandle })
+  }
+
+  async delete(channelHandle: string): Promise<void> {
+    return this.remove({ channelHandle })
+  }
+}
@@ -4,8 +4,10 @@ import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { AnyItem } from 'dynamoose/dist/Item'
 import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
 import { omit } from 'ramda'
+import { Logger } from 'winston'
 import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
 import { ResourcePrefix, Stats } from '../types/youtube'
+import { LoggingService } from '../services/logging'
 
 function statsRepository(tablePrefix: ResourcePrefix) {
   const schema = new dynamoose.Schema({
@@ -19,41 +21,70 @@ function statsRepository(tablePrefix: ResourcePrefix) {
     },
     syncQuotaUsed: Number,
     signupQuotaUsed: Number,
+    clientId: String,
   })
   return dynamoose.model(`${tablePrefix}stats`, schema, DYNAMO_MODEL_OPTIONS)
 }
 
-export class StatsRepository implements IRepository<Stats> {
+// Quota resets at Pacific Time, and pst is 8 hours behind UTC
+export function todaysStatsDate(): string {
+  return new Date().toLocaleDateString('en-US', {
+    timeZone: 'America/Los_Angeles',
+    dateStyle: 'full',
+  })
+}
+
+/**
+ * @param clientId ID of the Youtube OAuth client, the stats of the primary client (if not provided)
+ * are kept in the `stats` partition, while each additional client has its own partition
+ */
+export function statsPartition(clientId?: string): string {
+  return clientId ? `stats:${clientId}` : 'stats'
+}
+
+export type QuotaUsageIncrement = {
+  syncQuotaIncrement?: number
+  signupQuotaIncrement?: number
+}
+
+export interface IStatsRepository extends IRepository<Stats> {
+  get(date: string, clientId?: string): Promise<Stats | undefined>
+  getOrSetTodaysStats(clientId?: string): Promise<Stats>
+
+  // Atomically increases the quota usage counters of given date (& Youtube OAuth client)
+  increaseQuotaUsage(date: string, increment: QuotaUsageIncrement, clientId?: string): Promise<void>
+}
+
+export class StatsRepository implements IStatsRepository {
   private model
+  private logger: Logger
 
   // lock any updates on video table
   private readonly ASYNC_LOCK_ID = 'stat'
   private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
 
-  constructor(tablePrefix: ResourcePrefix) {
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
     this.model = statsRepository(tablePrefix)
+    this.logger = logging.createLogger('StatsRepository')
   }
 
   async getModel() {
     return this.model
   }
 
-  async getOrSetTodaysStats(): Promise<Stats> {
-    // Quota resets at Pacific Time, and pst is 8 hours behind UTC
-    const today = new Date().toLocaleDateString('en-US', {
-      timeZone: 'America/Los_Angeles',
-      dateStyle: 'full',
-    })
+  async getOrSetTodaysStats(clientId?: string): Promise<Stats> {
+    const today = todaysStatsDate()
 
     // Get today's stats
-    let stats = await this.get(today)
+    let stats = await this.get(today, clientId)
 
     if (!stats) {
       const statsDoc = await this.model.update({
-        partition: 'stats',
+        partition: statsPartition(clientId),
         date: today,
         syncQuotaUsed: 0,
         signupQuotaUsed: 0,
+        ...(clientId && { clientId }),
       })
       stats = mapTo<Stats>(statsDoc)
     }
@@ -61,8 +92,34 @@ export class StatsRepository implements IRepository<Stats> {
     return stats
   }
 
-  async upsertAll(): Promise<Stats[]> {
-    throw new Error('Not implemented')
+  async increaseQuotaUsage(
+    date: string,
+    { syncQuotaIncrement = 0, signupQuotaIncrement = 0 }: QuotaUsageIncrement,
+    clientId?: string
+  ): Promise<void> {
+    await this.model.update(
+      { partition: statsPartition(clientId), date },
+      { $ADD: { syncQuotaUsed: syncQuotaIncrement, signupQuotaUsed: signupQuotaIncrement } }
+    )
+  }
+
+  async upsertAll(stats: Stats[]): Promise<Stats[]> {
+    const results = await Promise.all(stats.map(async (s) => await this.save(s)))
+    return results
+  }
+
+  async batchSave(stats: Stats[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.batchPut(stats)
+      if (result.unprocessedItems.length) {
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
+        return await this.batchSave(result.unprocessedItems as Stats[])
+      }
+    })
+  }
+
+  async scanAll(): Promise<Stats[]> {
+    return this.scan('partition', (s) => s)
   }
 
   async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<Stats[]> {
@@ -81,9 +138,9 @@ export class StatsRepository implements IRepository<Stats> {
     })
   }
 
-  async get(date: string): Promise<Stats | undefined> {
+  async get(date: string, clientId?: string): Promise<Stats | undefined> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
-      const result = await this.model.get({ partition: 'stats', date })
+      const result = await this.model.get({ partition: statsPartition(clientId), date })
       return result ? mapTo<Stats>(result) : undefined
     })
   }
@@ -91,7 +148,7 @@ export class StatsRepository implements IRepository<Stats> {
   async save(model: Stats): Promise<Stats> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const update = omit(['id', 'updatedAt'], model)
-      const result = await this.model.update({ partition: 'stats', date: model.date }, update)
+      const result = await this.model.update({ partition: model.partition, date: model.date }, update)
       return mapTo<Stats>(result)
     })
   }
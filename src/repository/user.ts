@@ -4,8 +4,10 @@ import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { AnyItem } from 'dynamoose/dist/Item'
 import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
 import { omit } from 'ramda'
-import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
+import { Logger } from 'winston'
+import { DYNAMO_MODEL_OPTIONS, IRepository, ItemUpdate, mapTo } from '.'
 import { ResourcePrefix, YtUser } from '../types/youtube'
+import { LoggingService } from '../services/logging'
 
 function createUserModel(tablePrefix: ResourcePrefix) {
   const userSchema = new dynamoose.Schema(
@@ -33,6 +35,22 @@ function createUserModel(tablePrefix: ResourcePrefix) {
       // user refresh token that will be used to get new access token after expiration
       refreshToken: String,
 
+      // ID of the Youtube OAuth client the user has authorized the app through (primary client if not set)
+      oauthClientId: String,
+
+      // expiry date of the access token (updated whenever the access token is refreshed)
+      accessTokenExpiry: {
+        type: {
+          value: Date,
+          settings: {
+            storage: 'iso',
+          },
+        },
+        get: (value: any) => {
+          return new Date(value)
+        },
+      },
+
       // User avatar url
       avatarUrl: String,
 
@@ -68,22 +86,52 @@ function createUserModel(tablePrefix: ResourcePrefix) {
   return dynamoose.model(`${tablePrefix}users`, userSchema, DYNAMO_MODEL_OPTIONS)
 }
 
-export class UsersRepository implements IRepository<YtUser> {
+export type UserUpdate = ItemUpdate<YtUser, 'id'>
+
+export interface IUsersRepository extends IRepository<YtUser, 'id'> {
+  get(id: string): Promise<YtUser | undefined>
+  delete(id: string): Promise<void>
+
+  // Returns all users whose email contains given search string (all users if it's empty)
+  searchByEmail(search: string): Promise<YtUser[]>
+}
+
+export class UsersRepository implements IUsersRepository {
   private model
+  private logger: Logger
 
   // lock any updates on video table
   private readonly ASYNC_LOCK_ID = 'user'
   private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
 
-  constructor(tablePrefix: ResourcePrefix) {
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
     this.model = createUserModel(tablePrefix)
+    this.logger = logging.createLogger('UsersRepository')
   }
 
-  async upsertAll(users: YtUser[]): Promise<YtUser[]> {
+  async upsertAll(users: UserUpdate[]): Promise<YtUser[]> {
     const results = await Promise.all(users.map(async (user) => this.save(user)))
     return results
   }
 
+  async scanAll(): Promise<YtUser[]> {
+    return this.scan({}, (s) => s)
+  }
+
+  async searchByEmail(search: string): Promise<YtUser[]> {
+    return this.scan('id', (q) => (search ? q.and().attribute('email').contains(search) : q))
+  }
+
+  async batchSave(users: YtUser[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.batchPut(users)
+      if (result.unprocessedItems.length) {
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
+        return await this.batchSave(result.unprocessedItems as YtUser[])
+      }
+    })
+  }
+
   async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<YtUser[]> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       let lastKey = undefined
@@ -107,7 +155,7 @@ export class UsersRepository implements IRepository<YtUser> {
     })
   }
 
-  async save(user: YtUser): Promise<YtUser> {
+  async save(user: UserUpdate): Promise<YtUser> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const update = omit(['id', 'updatedAt'], user)
       const result = await this.model.update({ id: user.id }, update)
@@ -140,7 +188,7 @@ export class UsersRepository implements IRepository<YtUser> {
 }
 
 export class UsersService {
-  constructor(private usersRepository: UsersRepository) {}
+  constructor(private usersRepository: IUsersRepository) {}
 
   /**
    * @param userId
@@ -156,17 +204,14 @@ export class UsersService {
 
   async usersByEmail(search: string): Promise<YtUser[]> {
     // find users with given email
-    const result = await this.usersRepository.scan('id', (q) =>
-      search ? q.and().attribute('email').contains(search) : q
-    )
-    return result
+    return this.usersRepository.searchByEmail(search)
   }
 
   /**
    * @param user
    * @returns Updated user
    */
-  async save(user: YtUser): Promise<YtUser> {
+  async save(user: UserUpdate): Promise<YtUser> {
     return this.usersRepository.save(user)
   }
 }
@@ -4,8 +4,10 @@ import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { AnyItem } from 'dynamoose/dist/Item'
 import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
 import { omit } from 'ramda'
-import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
-import { ResourcePrefix, VideoState, YtChannel, YtVideo, videoStates } from '../types/youtube'
+import { Logger } from 'winston'
+import { DYNAMO_MODEL_OPTIONS, IRepository, ItemUpdate, mapTo } from '.'
+import { ResourcePrefix, VideoState, YtChannel, YtVideo, videoProcessingStages, videoStates } from '../types/youtube'
+import { LoggingService } from '../services/logging'
 
 function videoRepository(tablePrefix: ResourcePrefix) {
   const videoSchema = new dynamoose.Schema(
@@ -61,12 +63,18 @@ function videoRepository(tablePrefix: ResourcePrefix) {
       // Joystream video category to be assigned to synced videos
       category: String,
 
+      // Youtube video category ID
+      ytCategoryId: String,
+
       // language of the synced video (derived from corresponding Joystream channel)
       languageIso: String,
 
       // video duration in seconds
       duration: Number,
 
+      // Is the video a Youtube Short?
+      isShort: Boolean,
+
       // The status of the uploaded video on Youtube.
       uploadStatus: String,
 
@@ -79,6 +87,9 @@ function videoRepository(tablePrefix: ResourcePrefix) {
       // Video's container
       container: String,
 
+      // Size of the original video file uploaded to Youtube
+      fileSize: Number,
+
       // joystream video ID in `VideoCreated` event response, returned from joystream runtime after creating a video
       joystreamVideo: {
         type: Object,
@@ -87,7 +98,7 @@ function videoRepository(tablePrefix: ResourcePrefix) {
           // Joystream runtime Video ID for successfully synced video
           id: String,
 
-          // Data Object IDs (first element is the video, the second is the thumbnail)
+          // Data Object IDs (first element is the video, the second is the thumbnail, followed by the subtitles, if any)
           assetIds: {
             type: Array,
             schema: [String],
@@ -95,6 +106,62 @@ function videoRepository(tablePrefix: ResourcePrefix) {
         },
       },
 
+      // Whether the video thumbnail was changed on Youtube and the new thumbnail still needs to be set on Joystream
+      hasOutdatedThumbnail: Boolean,
+
+      // ETag of the Youtube thumbnail image
+      thumbnailEtag: String,
+
+      // Whether the video has been hidden on Joystream
+      isHiddenOnJoystream: Boolean,
+
+      // Subtitles tracks synced along with the video
+      subtitles: {
+        type: Array,
+        schema: [
+          {
+            type: Object,
+            schema: {
+              language: String,
+              type: { type: String, enum: ['subtitles', 'closed-captions'] },
+            },
+          },
+        ],
+      },
+
+      // Format of the downloaded video
+      downloadedFormat: {
+        type: Object,
+        schema: {
+          formatId: String,
+          resolution: String,
+          videoCodec: String,
+          audioCodec: String,
+          container: String,
+        },
+      },
+
+      // Sudo priority of the video set by the operator
+      sudoPriority: Number,
+
+      // No. of times the video processing has failed
+      failuresCount: Number,
+
+      // Last failure of the video processing
+      lastFailure: {
+        type: Object,
+        schema: {
+          stage: { type: String, enum: [...videoProcessingStages] },
+          message: String,
+        },
+      },
+
+      // Whether the duplicate video should be created on Joystream (set by the operator)
+      allowDuplicate: Boolean,
+
+      // ID of the Joystream Channel owning the Joystream video that the duplicate video is linked to
+      linkedJoystreamChannelId: String,
+
       // ID of the corresponding Joystream Channel (De-normalized from Channel table)
       joystreamChannelId: Number,
 
@@ -130,26 +197,53 @@ function videoRepository(tablePrefix: ResourcePrefix) {
   return dynamoose.model(`${tablePrefix}videos`, videoSchema, DYNAMO_MODEL_OPTIONS)
 }
 
-export class VideosRepository implements IRepository<YtVideo> {
+export type VideoUpdate = ItemUpdate<YtVideo, 'id' | 'channelId'>
+
+export interface IVideosRepository extends IRepository<YtVideo, 'id' | 'channelId'> {
+  get(channelId: string, id: string): Promise<YtVideo | undefined>
+  delete(channelId: string, id: string): Promise<void>
+
+  // Returns all videos of the given Youtube channel
+  getByChannelId(channelId: string): Promise<YtVideo[]>
+
+  // Returns all videos in the given state, sorted by publish date in ascending order (`state-publishedAt-index`)
+  getByState(state: VideoState): Promise<YtVideo[]>
+}
+
+export class VideosRepository implements IVideosRepository {
   private model
+  private logger: Logger
 
   // lock any updates on video table
   private readonly ASYNC_LOCK_ID = 'video'
   private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
 
-  constructor(tablePrefix: ResourcePrefix) {
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
     this.model = videoRepository(tablePrefix)
+    this.logger = logging.createLogger('VideosRepository')
   }
 
   async getModel() {
     return this.model
   }
 
-  async upsertAll(videos: YtVideo[]): Promise<YtVideo[]> {
+  async upsertAll(videos: VideoUpdate[]): Promise<YtVideo[]> {
     const results = await Promise.all(videos.map(async (video) => await this.save(video)))
     return results
   }
 
+  async scanAll(): Promise<YtVideo[]> {
+    return this.scan({}, (s) => s)
+  }
+
+  async getByChannelId(channelId: string): Promise<YtVideo[]> {
+    return this.query({ channelId }, (q) => q)
+  }
+
+  async getByState(state: VideoState): Promise<YtVideo[]> {
+    return this.query({ state }, (q) => q.sort('ascending').using('state-publishedAt-index'))
+  }
+
   async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<YtVideo[]> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       let lastKey = undefined
@@ -179,7 +273,7 @@ export class VideosRepository implements IRepository<YtVideo> {
     })
   }
 
-  async save(video: YtVideo): Promise<YtVideo> {
+  async save(video: VideoUpdate): Promise<YtVideo> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const upd = omit(['id', 'channelId', 'updatedAt'], video)
       const result = await this.model.update({ channelId: video.channelId, id: video.id }, upd)
@@ -191,7 +285,7 @@ export class VideosRepository implements IRepository<YtVideo> {
     return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
       const result = await this.model.batchPut(videos)
       if (result.unprocessedItems.length) {
-        console.log('Unprocessed items', result.unprocessedItems.length)
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
         return await this.batchSave(result.unprocessedItems as YtVideo[])
       }
     })
@@ -228,7 +322,7 @@ export class VideosRepository implements IRepository<YtVideo> {
 }
 
 export class VideosService {
-  constructor(private videosRepository: VideosRepository) {}
+  constructor(private videosRepository: IVideosRepository) {}
 
   /**
    * @param video
@@ -246,8 +340,12 @@ export class VideosService {
     return await this.videosRepository.batchSave(videos.map((v) => ({ ...v, state })))
   }
 
+  async get(channelId: string, id: string): Promise<YtVideo | undefined> {
+    return this.videosRepository.get(channelId, id)
+  }
+
   async getVideosInState(state: VideoState): Promise<YtVideo[]> {
-    return this.videosRepository.query({ state }, (q) => q.sort('ascending').using('state-publishedAt-index'))
+    return this.videosRepository.getByState(state)
   }
 
   async getAllUnsyncedVideos(): Promise<YtVideo[]> {
@@ -271,10 +369,32 @@ export class VideosService {
     return [...(await this.getVideosInState('VideoCreationFailed')), ...(await this.getVideosInState('New'))]
   }
 
+  async getVideosPendingMetadataUpdate(): Promise<YtVideo[]> {
+    // videos linked to the Joystream video of another channel can't be updated by the channel
+    return [
+      ...(await this.getVideosInState('MetadataUpdateFailed')),
+      ...(await this.getVideosInState('MetadataUpdatePending')),
+    ].filter((v) => !v.linkedJoystreamChannelId)
+  }
+
+  /**
+   * Moves the dead-lettered video back to the state from which its processing
+   * will be retried (depending on the stage in which it has last failed)
+   * @param video
+   * @returns Updated video
+   */
+  async requeueDeadLettered(video: YtVideo): Promise<YtVideo> {
+    if (video.state !== 'DeadLetter') {
+      throw new Error(`Video ${video.id} is not in 'DeadLetter' state (current state: ${video.state}).`)
+    }
+
+    const state: VideoState =
+      video.lastFailure?.stage === 'Update' ? 'MetadataUpdatePending' : video.joystreamVideo ? 'VideoCreated' : 'New'
+    return this.videosRepository.save({ ...video, state, failuresCount: 0 })
+  }
+
   async getHistoricalUnsyncedVideosOfChannel(channel: YtChannel): Promise<YtVideo[]> {
-    const videos = await this.videosRepository.query({ channelId: channel.id }, (q) =>
-      q.using('channelId-publishedAt-index')
-    )
+    const videos = await this.videosRepository.getByChannelId(channel.id)
 
     return videos.filter(
       (v) => new Date(v.publishedAt) < channel.createdAt && (v.state === 'New' || v.state === 'VideoCreationFailed')
@@ -286,7 +406,7 @@ export class VideosService {
    * @param video
    * @returns Updated video
    */
-  async save(video: YtVideo): Promise<YtVideo> {
+  async save(video: VideoUpdate): Promise<YtVideo> {
     return this.videosRepository.save(video)
   }
 
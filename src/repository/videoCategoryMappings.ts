@@ -0,0 +1,124 @@
+import AsyncLock from 'async-lock'
+import * as dynamoose from 'dynamoose'
+import { ConditionInitializer } from 'dynamoose/dist/Condition'
+import { ObjectType } from 'dynamoose/dist/General'
+import { AnyItem } from 'dynamoose/dist/Item'
+import { Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
+import { Logger } from 'winston'
+import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
+import { ResourcePrefix, VideoCategoryMapping } from '../types/youtube'
+import { LoggingService } from '../services/logging'
+
+function videoCategoryMappingsModel(tablePrefix: ResourcePrefix) {
+  const schema = new dynamoose.Schema(
+    {
+      // Youtube video category ID
+      ytCategoryId: {
+        type: String,
+        hashKey: true,
+      },
+
+      // Joystream video category ID that the Youtube category is mapped to
+      joystreamCategoryId: String,
+    },
+    {
+      saveUnknown: false,
+      timestamps: {
+        createdAt: {
+          createdAt: {
+            type: {
+              value: Date,
+              settings: {
+                storage: 'iso',
+              },
+            },
+          },
+        },
+        updatedAt: {
+          updatedAt: {
+            type: {
+              value: Date,
+              settings: {
+                storage: 'iso',
+              },
+            },
+          },
+        },
+      },
+    }
+  )
+  return dynamoose.model(`${tablePrefix}videoCategoryMappings`, schema, DYNAMO_MODEL_OPTIONS)
+}
+
+export interface IVideoCategoryMappingsRepository extends IRepository<VideoCategoryMapping> {
+  get(ytCategoryId: string): Promise<VideoCategoryMapping | undefined>
+  delete(ytCategoryId: string): Promise<void>
+}
+
+export class VideoCategoryMappingsRepository implements IVideoCategoryMappingsRepository {
+  private model
+  private logger: Logger
+
+  // lock any updates on videoCategoryMappings table
+  private readonly ASYNC_LOCK_ID = 'videoCategoryMappings'
+  private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
+
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
+    this.model = videoCategoryMappingsModel(tablePrefix)
+    this.logger = logging.createLogger('VideoCategoryMappingsRepository')
+  }
+
+  async upsertAll(mappings: VideoCategoryMapping[]): Promise<VideoCategoryMapping[]> {
+    const results = await Promise.all(mappings.map(async (mapping) => await this.save(mapping)))
+    return results
+  }
+
+  async batchSave(mappings: VideoCategoryMapping[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.batchPut(mappings)
+      if (result.unprocessedItems.length) {
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
+        return await this.batchSave(result.unprocessedItems as VideoCategoryMapping[])
+      }
+    })
+  }
+
+  async scanAll(): Promise<VideoCategoryMapping[]> {
+    return this.scan({}, (s) => s)
+  }
+
+  async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<VideoCategoryMapping[]> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      let lastKey: ObjectType | undefined = undefined
+      const results = []
+      do {
+        const request = f(this.model.scan(init))
+        let scannedBatch: ScanResponse<AnyItem> = await (lastKey ? request.startAt(lastKey) : request).exec()
+        let batchResult = scannedBatch.map((b) => mapTo<VideoCategoryMapping>(b))
+        results.push(...batchResult)
+        lastKey = scannedBatch.lastKey
+      } while (lastKey)
+      return results
+    })
+  }
+
+  async get(ytCategoryId: string): Promise<VideoCategoryMapping | undefined> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.get(ytCategoryId)
+      return result ? mapTo<VideoCategoryMapping>(result) : undefined
+    })
+  }
+
+  async save(mapping: VideoCategoryMapping): Promise<VideoCategoryMapping> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.update(mapping)
+      return mapTo<VideoCategoryMapping>(result)
+    })
+  }
+
+  async delete(ytCategoryId: string): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      await this.model.delete(ytCategoryId)
+    })
+  }
+}
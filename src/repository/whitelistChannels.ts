@@ -3,8 +3,10 @@ import * as dynamoose from 'dynamoose'
 import { ConditionInitializer } from 'dynamoose/dist/Condition'
 import { AnyItem } from 'dynamoose/dist/Item'
 import { Query, QueryResponse, Scan, ScanResponse } from 'dynamoose/dist/ItemRetriever'
+import { Logger } from 'winston'
 import { DYNAMO_MODEL_OPTIONS, IRepository, mapTo } from '.'
 import { ResourcePrefix, WhitelistChannel } from '../types/youtube'
+import { LoggingService } from '../services/logging'
 
 function whitelistChannelsModel(tablePrefix: ResourcePrefix) {
   const schema = new dynamoose.Schema(
@@ -33,19 +35,41 @@ function whitelistChannelsModel(tablePrefix: ResourcePrefix) {
   return dynamoose.model(`${tablePrefix}whitelistChannels`, schema, DYNAMO_MODEL_OPTIONS)
 }
 
-export class WhitelistChannelsRepository implements IRepository<WhitelistChannel> {
+export interface IWhitelistChannelsRepository extends IRepository<WhitelistChannel> {
+  get(channelHandle: string): Promise<WhitelistChannel | undefined>
+  delete(channelHandle: string): Promise<void>
+}
+
+export class WhitelistChannelsRepository implements IWhitelistChannelsRepository {
   private model
+  private logger: Logger
 
   // lock any updates on whitelistChannels table
   private readonly ASYNC_LOCK_ID = 'whitelistChannels'
   private asyncLock: AsyncLock = new AsyncLock({ maxPending: Number.MAX_SAFE_INTEGER })
 
-  constructor(tablePrefix: ResourcePrefix) {
+  constructor(tablePrefix: ResourcePrefix, logging: LoggingService) {
     this.model = whitelistChannelsModel(tablePrefix)
+    this.logger = logging.createLogger('WhitelistChannelsRepository')
+  }
+
+  async upsertAll(channels: WhitelistChannel[]): Promise<WhitelistChannel[]> {
+    const results = await Promise.all(channels.map(async (channel) => await this.save(channel)))
+    return results
+  }
+
+  async batchSave(channels: WhitelistChannel[]): Promise<void> {
+    return this.asyncLock.acquire(this.ASYNC_LOCK_ID, async () => {
+      const result = await this.model.batchPut(channels)
+      if (result.unprocessedItems.length) {
+        this.logger.warn(`Retrying to save unprocessed items`, { count: result.unprocessedItems.length })
+        return await this.batchSave(result.unprocessedItems as WhitelistChannel[])
+      }
+    })
   }
 
-  async upsertAll(): Promise<WhitelistChannel[]> {
-    throw new Error('Not implemented')
+  async scanAll(): Promise<WhitelistChannel[]> {
+    return this.scan({}, (s) => s)
   }
 
   async scan(init: ConditionInitializer, f: (q: Scan<AnyItem>) => Scan<AnyItem>): Promise<WhitelistChannel[]> {
@@ -17,29 +17,37 @@ import {
 import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
 import { signatureVerify } from '@polkadot/util-crypto'
 import { randomBytes } from 'crypto'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { ReadonlyConfig } from '../../../types'
 import { YtChannel, YtUser } from '../../../types/youtube'
+import { parseByteSize } from '../../../utils/configParser'
 import { QueryNodeApi } from '../../query-node/api'
 import { ContentProcessingService } from '../../syncProcessing'
 import { YoutubePollingService } from '../../syncProcessing/YoutubePollingService'
+import { SyncUtils } from '../../syncProcessing/utils'
 import { IYoutubeApi } from '../../youtube/api'
 import {
   ChannelDto,
   ChannelInductionRequirementsDto,
   IngestChannelDto,
   OptoutChannelDto,
+  ReauthorizeChannelRequest,
   ReferredChannelDto,
   SaveChannelRequest,
   SaveChannelResponse,
   SetChannelCategoryByOperatorDto,
+  SetChannelLimitsByOperatorDto,
   SetOperatorIngestionStatusDto,
+  SetUnavailableVideoPolicyByOperatorDto,
   SuspendChannelDto,
   UpdateChannelCategoryDto,
+  UpdateChannelProfileSyncDto,
+  UpdateChannelSyncFiltersDto,
   UserDto,
   VerifyChannelDto,
   WhitelistChannelDto,
 } from '../dtos'
+import { ensureOperatorAuthorization } from '../operatorAuthorization'
 
 @Controller('channels')
 @ApiTags('channels')
@@ -48,7 +56,7 @@ export class ChannelsController {
     @Inject('config') private config: ReadonlyConfig,
     @Inject('youtube') private youtubeApi: IYoutubeApi,
     private qnApi: QueryNodeApi,
-    private dynamodbService: DynamodbService,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService,
     private youtubePollingService: YoutubePollingService,
     private contentProcessingService: ContentProcessingService
   ) {}
@@ -185,6 +193,9 @@ export class ChannelsController {
         shouldBeIngested: action.message.shouldBeIngested,
         lastActedAt: action.message.timestamp,
         ...(action.message.videoCategoryId ? { videoCategoryId: action.message.videoCategoryId } : {}),
+        ...(action.message.syncLiveStreamReplays !== undefined
+          ? { syncLiveStreamReplays: action.message.syncLiveStreamReplays }
+          : {}),
       })
     } catch (error) {
       const message = error instanceof Error ? error.message : error
@@ -203,6 +214,11 @@ export class ChannelsController {
       // ensure that action is valid and authorized by channel owner
       const { channel } = await this.ensureAuthorizedToPerformChannelAction(id, action)
 
+      // channel requiring re-authorization can only opt back in by re-authorizing the app
+      if (!action.message.optout && channel.yppStatus === 'ReauthorizationRequired') {
+        throw new BadRequestException(`Channel ${id} requires re-authorization, it can't be opted in before that.`)
+      }
+
       // update channel's ypp participation status
       await this.dynamodbService.channels.save({
         ...channel,
@@ -211,6 +227,9 @@ export class ChannelsController {
         lastActedAt: action.message.timestamp,
       })
     } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error
+      }
       const message = error instanceof Error ? error.message : error
       throw new NotFoundException(message)
     }
@@ -234,6 +253,7 @@ export class ChannelsController {
       await this.dynamodbService.channels.save({
         ...channel,
         videoCategoryId: action.message.videoCategoryId,
+        videoCategoryMode: action.message.videoCategoryMode || channel.videoCategoryMode,
         lastActedAt: action.message.timestamp,
       })
     } catch (error) {
@@ -242,6 +262,147 @@ export class ChannelsController {
     }
   }
 
+  @Put(':joystreamChannelId/profileSync')
+  @ApiBody({ type: UpdateChannelProfileSyncDto })
+  @ApiResponse({ type: ChannelDto })
+  @ApiOperation({
+    description:
+      `Enables/disables syncing of given channel's Youtube profile (title, description, avatar & banner) ` +
+      `to the Joystream channel. Note: only channel owner can update the status`,
+  })
+  async updateChannelProfileSync(
+    @Param('joystreamChannelId', ParseIntPipe) id: number,
+    @Body() action: UpdateChannelProfileSyncDto
+  ) {
+    try {
+      // ensure that action is valid and authorized by channel owner
+      const { channel } = await this.ensureAuthorizedToPerformChannelAction(id, action)
+
+      // update channel's profile sync status
+      await this.dynamodbService.channels.save({
+        ...channel,
+        syncChannelProfile: action.message.syncChannelProfile,
+        lastActedAt: action.message.timestamp,
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put(':joystreamChannelId/reauthorize')
+  @ApiBody({ type: ReauthorizeChannelRequest })
+  @ApiResponse({ type: ChannelDto })
+  @ApiOperation({
+    description:
+      `Re-authorizes the app's access to the channel (e.g. after its owner has changed the Google account ` +
+      `password) using the new authorization code, which restores the channel's YPP status. Note: only ` +
+      `channels requiring re-authorization can be re-authorized, and only by the channel owner`,
+  })
+  async reauthorizeChannel(
+    @Param('joystreamChannelId', ParseIntPipe) id: number,
+    @Body() { authorizationCode, youtubeRedirectUri, clientId }: ReauthorizeChannelRequest
+  ) {
+    try {
+      const channel = await this.dynamodbService.channels.getByJoystreamId(id)
+      if (channel.yppStatus !== 'ReauthorizationRequired') {
+        throw new BadRequestException(`Channel ${id} doesn't require re-authorization.`)
+      }
+
+      // get user from the new authorization code & ensure that it's the owner of the channel
+      const user = await this.youtubeApi.getUserFromCode(
+        authorizationCode,
+        youtubeRedirectUri,
+        clientId ?? channel.oauthClientId
+      )
+      const ytChannel = await this.youtubeApi.getChannel(user)
+      if (user.id !== channel.userId || ytChannel.id !== channel.id) {
+        throw new UnauthorizedException(`Authorization code doesn't belong to the owner of the channel ${id}.`)
+      }
+
+      // reset authorization code to prevent repeated re-authorization requests by authorization code re-use
+      const existingUser = await this.dynamodbService.repo.users.get(user.id)
+      const updatedUser: YtUser = {
+        ...user,
+        email: existingUser?.email || user.email,
+        joystreamMemberId: existingUser?.joystreamMemberId,
+        authorizationCode: randomBytes(10).toString('hex'),
+      }
+
+      const updatedChannel: YtChannel = {
+        ...channel,
+        userAccessToken: user.accessToken,
+        userRefreshToken: user.refreshToken,
+        userAccessTokenExpiry: user.accessTokenExpiry,
+        oauthClientId: user.oauthClientId,
+        yppStatus: channel.yppStatusBeforeReauthorization || 'Unverified',
+        yppStatusBeforeReauthorization: undefined,
+        reauthorizationRequiredAt: undefined,
+      }
+
+      // save user and channel
+      await this.saveUserAndChannel(updatedUser, updatedChannel)
+
+      return new ChannelDto(updatedChannel)
+    } catch (error) {
+      if (error instanceof BadRequestException || error instanceof UnauthorizedException) {
+        throw error
+      }
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put(':joystreamChannelId/syncFilters')
+  @ApiBody({ type: UpdateChannelSyncFiltersDto })
+  @ApiResponse({ type: ChannelDto })
+  @ApiOperation({
+    description:
+      `Sets the filters of given channel's videos to sync (shorts, duration, title patterns & publish date). ` +
+      `Note: only channel owner can update the filters`,
+  })
+  async updateChannelSyncFilters(
+    @Param('joystreamChannelId', ParseIntPipe) id: number,
+    @Body() action: UpdateChannelSyncFiltersDto
+  ) {
+    try {
+      // ensure that action is valid and authorized by channel owner
+      const { channel } = await this.ensureAuthorizedToPerformChannelAction(id, action)
+
+      const { syncFilters } = action.message
+      if (
+        syncFilters.minDuration !== undefined &&
+        syncFilters.maxDuration !== undefined &&
+        syncFilters.minDuration > syncFilters.maxDuration
+      ) {
+        throw new BadRequestException(`Min video duration can't be greater than the max video duration.`)
+      }
+
+      // update channel's sync filters
+      const updatedChannel = await this.dynamodbService.channels.save({
+        ...channel,
+        syncFilters: { ...syncFilters },
+        lastActedAt: action.message.timestamp,
+      })
+
+      // videos filtered out by the previous filters that match the new ones are scheduled for syncing
+      const filteredVideos = (await this.dynamodbService.repo.videos.getByChannelId(channel.id)).filter(
+        (v) => v.state === 'Filtered'
+      )
+      for (const video of filteredVideos) {
+        if (SyncUtils.matchesSyncFilters(video, updatedChannel)) {
+          await this.dynamodbService.videos.save({ id: video.id, channelId: video.channelId, state: 'New' })
+        }
+      }
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        throw error
+      }
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
   @Put('/suspend')
   @ApiBody({ type: SuspendChannelDto, isArray: true })
   @ApiOperation({ description: `Authenticated endpoint to suspend given channel/s from YPP program` })
@@ -250,7 +411,7 @@ export class ChannelsController {
     @Body(new ParseArrayPipe({ items: SuspendChannelDto, whitelist: true })) channels: SuspendChannelDto[]
   ) {
     // ensure operator authorization
-    await this.ensureOperatorAuthorization(authorizationHeader)
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
       for (const { joystreamChannelId, reason } of channels) {
@@ -277,7 +438,7 @@ export class ChannelsController {
     @Body(new ParseArrayPipe({ items: VerifyChannelDto, whitelist: true })) channels: VerifyChannelDto[]
   ) {
     // ensure operator authorization
-    await this.ensureOperatorAuthorization(authorizationHeader)
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
       for (const { joystreamChannelId, tier } of channels) {
@@ -307,7 +468,7 @@ export class ChannelsController {
     channels: SetOperatorIngestionStatusDto[]
   ) {
     // ensure operator authorization
-    await this.ensureOperatorAuthorization(authorizationHeader)
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
       for (const { joystreamChannelId, allowOperatorIngestion } of channels) {
@@ -336,16 +497,79 @@ export class ChannelsController {
     channels: SetChannelCategoryByOperatorDto[]
   ) {
     // ensure operator authorization
-    await this.ensureOperatorAuthorization(authorizationHeader)
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
-      for (const { joystreamChannelId, videoCategoryId } of channels) {
+      for (const { joystreamChannelId, videoCategoryId, videoCategoryMode } of channels) {
         const channel = await this.dynamodbService.channels.getByJoystreamId(joystreamChannelId)
 
         // set operator ingestion status
         await this.dynamodbService.channels.save({
           ...channel,
           videoCategoryId,
+          videoCategoryMode: videoCategoryMode || channel.videoCategoryMode,
+        })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put('/limits')
+  @ApiBody({ type: SetChannelLimitsByOperatorDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to override the sync limits (no. & total size of the synced historical videos) ` +
+      `of channel/s by the Operator. Limits that are not provided are resolved by the configured limits policy`,
+  })
+  async setChannelLimitsByOperator(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: SetChannelLimitsByOperatorDto, whitelist: true }))
+    channels: SetChannelLimitsByOperatorDto[]
+  ) {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    try {
+      for (const { joystreamChannelId, videoCap, sizeCap } of channels) {
+        const channel = await this.dynamodbService.channels.getByJoystreamId(joystreamChannelId)
+
+        // set channel limits override
+        await this.dynamodbService.channels.save({
+          ...channel,
+          limitsOverride: { videoCap, sizeCap: sizeCap !== undefined ? parseByteSize(sizeCap) : undefined },
+        })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put('/unavailableVideoPolicy')
+  @ApiBody({ type: SetUnavailableVideoPolicyByOperatorDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to set the action (hide or delete) to take on Joystream when a synced ` +
+      `video of given channel/s is deleted or made private on Youtube`,
+  })
+  async setUnavailableVideoPolicyByOperator(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: SetUnavailableVideoPolicyByOperatorDto, whitelist: true }))
+    channels: SetUnavailableVideoPolicyByOperatorDto[]
+  ) {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    try {
+      for (const { joystreamChannelId, unavailableVideoPolicy } of channels) {
+        const channel = await this.dynamodbService.channels.getByJoystreamId(joystreamChannelId)
+
+        // set unavailable video policy
+        await this.dynamodbService.channels.save({
+          ...channel,
+          unavailableVideoPolicy,
         })
       }
     } catch (error) {
@@ -361,11 +585,8 @@ export class ChannelsController {
     @Headers('authorization') authorizationHeader: string,
     @Body(new ParseArrayPipe({ items: WhitelistChannelDto, whitelist: true })) channels: WhitelistChannelDto[]
   ) {
-    const yppOwnerKey = authorizationHeader ? authorizationHeader.split(' ')[1] : ''
-    // TODO: fix this YT_SYNCH__HTTP_API__OWNER_KEY config value
-    if (yppOwnerKey !== process.env.YT_SYNCH__HTTP_API__OWNER_KEY) {
-      throw new UnauthorizedException('Invalid YPP owner key')
-    }
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
       for (const { channelHandle } of channels) {
@@ -388,7 +609,7 @@ export class ChannelsController {
     @Param('channelHandle') channelHandle: string
   ) {
     // ensure operator authorization
-    await this.ensureOperatorAuthorization(authorizationHeader)
+    ensureOperatorAuthorization(this.config, authorizationHeader)
 
     try {
       const whitelistChannel = await this.dynamodbService.repo.whitelistChannels.get(channelHandle.toLowerCase())
@@ -429,23 +650,25 @@ export class ChannelsController {
     }
   }
 
-  private async ensureOperatorAuthorization(authorizationHeader: string): Promise<void> {
-    const yppOwnerKey = authorizationHeader ? authorizationHeader.split(' ')[1] : ''
-    // TODO: fix this YT_SYNCH__HTTP_API__OWNER_KEY config value
-    if (yppOwnerKey !== process.env.YT_SYNCH__HTTP_API__OWNER_KEY) {
-      throw new UnauthorizedException('Invalid YPP owner key')
-    }
-  }
-
   private async ensureAuthorizedToPerformChannelAction(
     joystreamChannelId: number,
-    action: IngestChannelDto | OptoutChannelDto | UpdateChannelCategoryDto
+    action:
+      | IngestChannelDto
+      | OptoutChannelDto
+      | UpdateChannelCategoryDto
+      | UpdateChannelProfileSyncDto
+      | UpdateChannelSyncFiltersDto
   ): Promise<{ channel: YtChannel }> {
     const { signature, message } = action
     const actionType: string = (action as any).constructor.name.replace('Dto', '')
     const channel = await this.dynamodbService.channels.getByJoystreamId(joystreamChannelId)
 
-    if (action instanceof IngestChannelDto || action instanceof UpdateChannelCategoryDto) {
+    if (
+      action instanceof IngestChannelDto ||
+      action instanceof UpdateChannelCategoryDto ||
+      action instanceof UpdateChannelProfileSyncDto ||
+      action instanceof UpdateChannelSyncFiltersDto
+    ) {
       // Ensure channel is not suspended
       if (YtChannel.isSuspended(channel)) {
         throw new Error(`Can't perfrom "${actionType}" action on a "${channel.yppStatus}" channel. Permission denied.`)
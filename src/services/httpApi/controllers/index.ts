@@ -1,5 +1,7 @@
 export * from './channels'
 export * from './status'
 export * from './users'
+export * from './videoCategories'
+export * from './videoOperations'
 export * from './videos'
 export * from './youtube'
@@ -1,7 +1,7 @@
 import { BadRequestException, Body, Controller, Inject, Post } from '@nestjs/common'
 import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
 import axios from 'axios'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { ReadonlyConfig } from '../../../types'
 import { FaucetApiError } from '../../../types/errors'
 import { FaucetRegisterMembershipParams, FaucetRegisterMembershipResponse } from '../../../types/youtube'
@@ -10,7 +10,10 @@ import { CreateMembershipRequest, CreateMembershipResponse } from '../dtos'
 @Controller('membership')
 @ApiTags('membership')
 export class MembershipController {
-  constructor(@Inject('config') private config: ReadonlyConfig, private dynamodbService: DynamodbService) {}
+  constructor(
+    @Inject('config') private config: ReadonlyConfig,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService
+  ) {}
 
   @ApiOperation({
     description: `Create Joystream's on-chain Membership for a verfifed YPP user. It will forward request
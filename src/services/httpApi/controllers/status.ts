@@ -1,21 +1,24 @@
 import { Controller, Get, Inject, NotFoundException } from '@nestjs/common'
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
 import BN from 'bn.js'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { ReadonlyConfig } from '../../../types'
 import { Stats } from '../../../types/youtube'
 import { RuntimeApi } from '../../runtime/api'
+import { StorageNodesStats } from '../../storage-node/stats'
+import { IYoutubeApi } from '../../youtube/api'
 import { ContentProcessingService } from '../../syncProcessing'
-import { CollaboratorStatusDto, StatusDto } from '../dtos'
+import { CollaboratorStatusDto, StatusDto, StorageOperatorStatsDto } from '../dtos'
 
 @Controller('status')
 @ApiTags('status')
 export class StatusController {
   constructor(
-    private dynamodbService: DynamodbService,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService,
     private runtimeApi: RuntimeApi,
     private contentProcessingService: ContentProcessingService,
-    @Inject('config') private config: ReadonlyConfig
+    @Inject('config') private config: ReadonlyConfig,
+    @Inject('youtube') private youtubeApi: IYoutubeApi
   ) {}
 
   @Get()
@@ -30,7 +33,8 @@ export class StatusController {
       } = this.config
 
       const { totalCount: syncBacklog } = await this.contentProcessingService.getJobsCount()
-      return { version, syncStatus: enable ? 'enabled' : 'disabled', syncBacklog }
+      const duplicateVideos = (await this.dynamodbService.videos.getVideosInState('Duplicate')).length
+      return { version, syncStatus: enable ? 'enabled' : 'disabled', syncBacklog, duplicateVideos }
     } catch (error) {
       const message = error instanceof Error ? error.message : error
       throw new NotFoundException(message)
@@ -43,7 +47,7 @@ export class StatusController {
   async getQuotaStats(): Promise<Stats[]> {
     try {
       // Get complete quota usage statss
-      const stats = await this.dynamodbService.repo.stats.scan('partition', (s) => s)
+      const stats = await this.dynamodbService.repo.stats.scanAll()
       return stats
     } catch (error) {
       const message = error instanceof Error ? error.message : error
@@ -52,18 +56,24 @@ export class StatusController {
   }
 
   @Get('quota-usage/today')
-  @ApiResponse({ type: Stats })
-  @ApiOperation({ description: `Get youtube quota usage information for today` })
-  async getQuotaStatsForToday(): Promise<Stats> {
+  @ApiResponse({ type: Stats, isArray: true })
+  @ApiOperation({ description: `Get youtube quota usage information for today (per Youtube OAuth client)` })
+  async getQuotaStatsForToday(): Promise<Stats[]> {
     try {
-      const stats = this.dynamodbService.repo.stats.getOrSetTodaysStats()
-      return stats
+      return await this.youtubeApi.getTodaysQuotaUsage()
     } catch (error) {
       const message = error instanceof Error ? error.message : error
       throw new NotFoundException(message)
     }
   }
 
+  @Get('storage-nodes')
+  @ApiResponse({ type: StorageOperatorStatsDto, isArray: true })
+  @ApiOperation({ description: `Get upload stats & health scores of the storage nodes (since the service start)` })
+  getStorageNodesStats(): StorageOperatorStatsDto[] {
+    return StorageNodesStats.all()
+  }
+
   @Get('collaborator')
   @ApiResponse({ type: Stats })
   @ApiOperation({ description: `Get Joystream collaborator account info` })
@@ -1,15 +1,32 @@
-import { BadRequestException, Body, Controller, Inject, Post } from '@nestjs/common'
+import { BadRequestException, Body, Controller, Get, Inject, Post } from '@nestjs/common'
 import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { ExitCodes, YoutubeApiError } from '../../../types/errors'
 import { YtChannel } from '../../../types/youtube'
 import { IYoutubeApi } from '../../youtube/api'
-import { VerifyChannelRequest, VerifyChannelResponse } from '../dtos'
+import { OAuthClientResponse, VerifyChannelRequest, VerifyChannelResponse } from '../dtos'
 
 @Controller('users')
 @ApiTags('channels')
 export class UsersController {
-  constructor(@Inject('youtube') private youtube: IYoutubeApi, private dynamodbService: DynamodbService) {}
+  constructor(
+    @Inject('youtube') private youtube: IYoutubeApi,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService
+  ) {}
+
+  @ApiOperation({
+    description: `returns the Youtube OAuth client (with the most remaining signup quota) that the new users should authorize the app through`,
+  })
+  @ApiResponse({ type: OAuthClientResponse })
+  @Get('oauthClient')
+  async getOAuthClient(): Promise<OAuthClientResponse> {
+    try {
+      return { clientId: await this.youtube.getSignupClientId() }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new BadRequestException(message)
+    }
+  }
 
   @ApiOperation({
     description: `fetches user's channel from the supplied google authorization code, and verifies if it satisfies YPP induction criteria`,
@@ -18,18 +35,22 @@ export class UsersController {
   @ApiResponse({ type: VerifyChannelResponse })
   @Post()
   async verifyUserAndChannel(
-    @Body() { authorizationCode, youtubeRedirectUri }: VerifyChannelRequest
+    @Body() { authorizationCode, youtubeRedirectUri, clientId }: VerifyChannelRequest
   ): Promise<VerifyChannelResponse> {
     try {
       // get user from authorization code
-      const user = await this.youtube.getUserFromCode(authorizationCode, youtubeRedirectUri)
+      const user = await this.youtube.getUserFromCode(authorizationCode, youtubeRedirectUri, clientId)
 
       const [registeredChannel] = await this.dynamodbService.channels.getAll(user.id)
 
       // Ensure 1. selected YT channel is not already registered for YPP program
       // OR 2. even if registered previously it has opted out.
       if (registeredChannel) {
-        if (YtChannel.isVerified(registeredChannel) || registeredChannel.yppStatus === 'Unverified') {
+        if (
+          YtChannel.isVerified(registeredChannel) ||
+          registeredChannel.yppStatus === 'Unverified' ||
+          registeredChannel.yppStatus === 'ReauthorizationRequired'
+        ) {
           throw new YoutubeApiError(
             ExitCodes.YoutubeApi.CHANNEL_ALREADY_REGISTERED,
             `Selected Youtube channel is already registered for YPP program`,
@@ -0,0 +1,91 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  Inject,
+  NotFoundException,
+  Param,
+  ParseArrayPipe,
+  Put,
+} from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { IDynamodbService } from '../../../repository'
+import { ReadonlyConfig } from '../../../types'
+import { VideoCategoryMapping } from '../../../types/youtube'
+import { SetVideoCategoryMappingDto, VideoCategoryMappingDto } from '../dtos'
+import { ensureOperatorAuthorization } from '../operatorAuthorization'
+
+@Controller('videoCategories')
+@ApiTags('videoCategories')
+export class VideoCategoriesController {
+  constructor(
+    @Inject('config') private config: ReadonlyConfig,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService
+  ) {}
+
+  @Get('mappings')
+  @ApiResponse({ type: VideoCategoryMappingDto, isArray: true })
+  @ApiOperation({
+    description: `Get the mappings of Youtube video categories to Joystream video categories (used by the channels with 'AutoMapped' video category mode)`,
+  })
+  async getVideoCategoryMappings(): Promise<VideoCategoryMappingDto[]> {
+    try {
+      const mappings = await this.dynamodbService.repo.videoCategoryMappings.scanAll()
+      return mappings.map((mapping) => new VideoCategoryMappingDto(mapping))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put('mappings')
+  @ApiBody({ type: SetVideoCategoryMappingDto, isArray: true })
+  @ApiResponse({ type: VideoCategoryMappingDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to create/update the mappings of given Youtube video categories to Joystream video ` +
+      `categories. Already synced videos aren't updated, the new mapping only applies to the videos ingested later ` +
+      `and to the synced videos whose Youtube category changes`,
+  })
+  async setVideoCategoryMappings(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: SetVideoCategoryMappingDto, whitelist: true }))
+    mappings: SetVideoCategoryMappingDto[]
+  ): Promise<VideoCategoryMappingDto[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    try {
+      const savedMappings = await this.dynamodbService.repo.videoCategoryMappings.upsertAll(
+        mappings.map(
+          ({ ytCategoryId, joystreamCategoryId }) => ({ ytCategoryId, joystreamCategoryId } as VideoCategoryMapping)
+        )
+      )
+      return savedMappings.map((mapping) => new VideoCategoryMappingDto(mapping))
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new BadRequestException(message)
+    }
+  }
+
+  @Delete('mappings/:ytCategoryId')
+  @ApiOperation({
+    description: `Authenticated endpoint to remove the mapping of given Youtube video category`,
+  })
+  async deleteVideoCategoryMapping(
+    @Headers('authorization') authorizationHeader: string,
+    @Param('ytCategoryId') ytCategoryId: string
+  ): Promise<void> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    const mapping = await this.dynamodbService.repo.videoCategoryMappings.get(ytCategoryId)
+    if (!mapping) {
+      throw new NotFoundException(`Mapping of Youtube video category ${ytCategoryId} not found.`)
+    }
+    await this.dynamodbService.repo.videoCategoryMappings.delete(ytCategoryId)
+  }
+}
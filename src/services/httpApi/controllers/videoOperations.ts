@@ -0,0 +1,325 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  Headers,
+  Inject,
+  NotFoundException,
+  ParseArrayPipe,
+  Put,
+} from '@nestjs/common'
+import { ApiBody, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
+import { Logger } from 'winston'
+import { IDynamodbService } from '../../../repository'
+import { ReadonlyConfig } from '../../../types'
+import { VideoState, YtVideo } from '../../../types/youtube'
+import { LoggingService } from '../../logging'
+import { ContentProcessingService, JobFlowLockedError } from '../../syncProcessing'
+import { SyncUtils } from '../../syncProcessing/utils'
+import {
+  RequeueVideoDto,
+  ResolveDuplicateVideoDto,
+  SetVideoSudoPriorityDto,
+  SkipVideoDto,
+  VideoDto,
+  VideoIdentifierDto,
+} from '../dtos'
+import { ensureOperatorAuthorization } from '../operatorAuthorization'
+
+type OperatorAction =
+  | 'requeueDeadLettered'
+  | 'requeue'
+  | 'resolveDuplicate'
+  | 'skip'
+  | 'setSudoPriority'
+  | 'forceRedownload'
+
+@Controller('videos')
+@ApiTags('videos')
+export class VideoOperationsController {
+  private logger: Logger
+
+  constructor(
+    @Inject('config') private config: ReadonlyConfig,
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService,
+    private contentProcessingService: ContentProcessingService,
+    logging: LoggingService
+  ) {
+    this.logger = logging.createLogger('OperatorAudit')
+  }
+
+  @Get('deadLetter')
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description: `Authenticated endpoint to get the videos whose processing has failed too many times (dead-lettered videos)`,
+  })
+  async getDeadLetteredVideos(@Headers('authorization') authorizationHeader: string): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    try {
+      return await this.dynamodbService.videos.getVideosInState('DeadLetter')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put('deadLetter/requeue')
+  @ApiBody({ type: VideoIdentifierDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description: `Authenticated endpoint to requeue given dead-lettered video/s, so that their processing is retried`,
+  })
+  async requeueDeadLetteredVideos(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: VideoIdentifierDto, whitelist: true })) videos: VideoIdentifierDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(
+      videos,
+      'requeueDeadLettered',
+      async (video) => this.dynamodbService.videos.requeueDeadLettered(video),
+      (video) => {
+        if (video.state !== 'DeadLetter') {
+          throw new BadRequestException(`Video ${video.id} is not dead-lettered (current state: ${video.state}).`)
+        }
+      }
+    )
+  }
+
+  @Get('duplicates')
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to get the videos quarantined as duplicates (already created on Joystream by the app ` +
+      `in another channel), which can be resolved by linking, force-creating or skipping them`,
+  })
+  async getDuplicateVideos(@Headers('authorization') authorizationHeader: string): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    try {
+      return await this.dynamodbService.videos.getVideosInState('Duplicate')
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error
+      throw new NotFoundException(message)
+    }
+  }
+
+  @Put('duplicates/resolve')
+  @ApiBody({ type: ResolveDuplicateVideoDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to resolve given duplicate video/s ('Link' - link the video to the Joystream video ` +
+      `already created by the app, 'ForceCreate' - create the video on Joystream anyway)`,
+  })
+  async resolveDuplicateVideos(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: ResolveDuplicateVideoDto, whitelist: true })) videos: ResolveDuplicateVideoDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(
+      videos,
+      'resolveDuplicate',
+      async (video, { resolution }) => {
+        await this.contentProcessingService.removeJobFlow(video.id)
+        if (resolution === 'Link') {
+          return this.contentProcessingService.linkDuplicateVideo(video)
+        }
+        return this.dynamodbService.videos.save({
+          id: video.id,
+          channelId: video.channelId,
+          state: 'New',
+          allowDuplicate: true,
+          failuresCount: 0,
+        })
+      },
+      (video) => {
+        if (video.state !== 'Duplicate') {
+          throw new BadRequestException(`Video ${video.id} is not a duplicate (current state: ${video.state}).`)
+        }
+      }
+    )
+  }
+
+  @Put('requeue')
+  @ApiBody({ type: RequeueVideoDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description:
+      `Authenticated endpoint to requeue given video/s from the chosen state ('New' - full resync, 'VideoCreated' - ` +
+      `re-upload of the assets of already created video, 'MetadataUpdatePending' - update of the synced video's metadata)`,
+  })
+  async requeueVideos(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: RequeueVideoDto, whitelist: true })) videos: RequeueVideoDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(
+      videos,
+      'requeue',
+      async (video, { state }) => {
+        await this.contentProcessingService.removeJobFlow(video.id)
+        // full resync of the linked video creates its own Joystream video
+        const linkedJoystreamChannelId = state === 'New' ? undefined : video.linkedJoystreamChannelId
+        return this.dynamodbService.videos.save({ ...video, state, failuresCount: 0, linkedJoystreamChannelId })
+      },
+      (video, { state }) => {
+        if (state !== 'New' && !video.joystreamVideo) {
+          throw new BadRequestException(
+            `Video ${video.id} can't be requeued to '${state}' state, it's not created yet.`
+          )
+        }
+        if (state !== 'New' && video.linkedJoystreamChannelId) {
+          throw new BadRequestException(
+            `Video ${video.id} can't be requeued to '${state}' state, it's linked to the Joystream video of ` +
+              `another channel (${video.linkedJoystreamChannelId}).`
+          )
+        }
+      }
+    )
+  }
+
+  @Put('skip')
+  @ApiBody({ type: SkipVideoDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({ description: `Authenticated endpoint to skip given (not yet synced) video/s from syncing` })
+  async skipVideos(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: SkipVideoDto, whitelist: true })) videos: SkipVideoDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(
+      videos,
+      'skip',
+      async (video) => {
+        await this.contentProcessingService.removeJobFlow(video.id)
+        return this.dynamodbService.videos.updateState(video, 'Skipped')
+      },
+      (video) => this.ensureVideoNotSynced(video)
+    )
+  }
+
+  @Put('sudoPriority')
+  @ApiBody({ type: SetVideoSudoPriorityDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description: `Authenticated endpoint to set the sudo priority (overriding the default one) of given video/s`,
+  })
+  async setVideosSudoPriority(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: SetVideoSudoPriorityDto, whitelist: true })) videos: SetVideoSudoPriorityDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(videos, 'setSudoPriority', async (video, { sudoPriority }) => {
+      const updatedVideo = await this.dynamodbService.videos.save({ ...video, sudoPriority })
+      await this.contentProcessingService.updateJobsSudoPriority(updatedVideo)
+      return updatedVideo
+    })
+  }
+
+  @Put('redownload')
+  @ApiBody({ type: VideoIdentifierDto, isArray: true })
+  @ApiResponse({ type: VideoDto, isArray: true })
+  @ApiOperation({
+    description: `Authenticated endpoint to force re-download of given (not yet synced) video/s, the already downloaded assets are discarded`,
+  })
+  async forceRedownloadVideos(
+    @Headers('authorization') authorizationHeader: string,
+    @Body(new ParseArrayPipe({ items: VideoIdentifierDto, whitelist: true })) videos: VideoIdentifierDto[]
+  ): Promise<YtVideo[]> {
+    // ensure operator authorization
+    ensureOperatorAuthorization(this.config, authorizationHeader)
+
+    return this.performOperatorAction(
+      videos,
+      'forceRedownload',
+      async (video) => {
+        await this.contentProcessingService.removeJobFlow(video.id)
+        if (SyncUtils.downloadedVideoFilePaths.has(video.id)) {
+          await SyncUtils.removeVideoFile(video.id)
+        }
+
+        // Already created video only needs its assets to be re-downloaded & uploaded
+        const state: VideoState = video.joystreamVideo ? 'VideoCreated' : 'New'
+        return this.dynamodbService.videos.save({ ...video, state, failuresCount: 0 })
+      },
+      (video) => this.ensureVideoNotSynced(video)
+    )
+  }
+
+  /**
+   * Performs the operator action on each of the given videos, and records the action in the audit log.
+   * All the videos are validated before the action is performed on any of them, so that an invalid request
+   * doesn't change any video. If the action fails on a video, the error lists the already updated videos.
+   */
+  private async performOperatorAction<T extends VideoIdentifierDto>(
+    videos: T[],
+    action: OperatorAction,
+    perform: (video: YtVideo, params: T) => Promise<YtVideo>,
+    validate?: (video: YtVideo, params: T) => void
+  ): Promise<YtVideo[]> {
+    const updatedVideos: YtVideo[] = []
+    try {
+      const videosToUpdate: { video: YtVideo; params: T }[] = []
+      for (const params of videos) {
+        const { channelId, videoId } = params
+        const video = await this.dynamodbService.videos.get(channelId, videoId)
+        if (!video) {
+          throw new NotFoundException(`Video ${videoId} of channel ${channelId} not found.`)
+        }
+        validate?.(video, params)
+        videosToUpdate.push({ video, params })
+      }
+
+      for (const { video, params } of videosToUpdate) {
+        const updatedVideo = await perform(video, params)
+        this.logger.info(`Operator action '${action}' performed on the video`, {
+          action,
+          params,
+          previousState: video.state,
+          state: updatedVideo.state,
+        })
+        updatedVideos.push(updatedVideo)
+      }
+      return updatedVideos
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const response = updatedVideos.length ? { message, updatedVideoIds: updatedVideos.map((v) => v.id) } : message
+      if (error instanceof NotFoundException) {
+        throw new NotFoundException(response)
+      }
+      if (error instanceof JobFlowLockedError) {
+        throw new ConflictException(response)
+      }
+      throw new BadRequestException(response)
+    }
+  }
+
+  private ensureVideoNotSynced(video: YtVideo) {
+    const syncedStates: VideoState[] = [
+      'UploadSucceeded',
+      'MetadataUpdatePending',
+      'MetadataUpdateFailed',
+      'VideoHidden',
+      'VideoDeleted',
+    ]
+    if (syncedStates.includes(video.state)) {
+      throw new BadRequestException(`Video ${video.id} has already been synced (current state: ${video.state}).`)
+    }
+  }
+}
@@ -1,12 +1,12 @@
-import { Controller, Get, NotFoundException, Param } from '@nestjs/common'
+import { Controller, Get, Inject, NotFoundException, Param } from '@nestjs/common'
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { YtVideo } from '../../../types/youtube'
 
 @Controller('users/:userId/videos')
 @ApiTags('channels')
 export class VideosController {
-  constructor(private dynamodbService: DynamodbService) {}
+  constructor(@Inject('dynamodbService') private dynamodbService: IDynamodbService) {}
 
   @Get()
   @ApiResponse({ type: YtVideo, isArray: true })
@@ -17,7 +17,7 @@ export class VideosController {
       const channel = await this.dynamodbService.channels.getByUserId(userId)
 
       // Get videos across all channels
-      const result = await this.dynamodbService.repo.videos.query({ channelId: channel.id }, (q) => q)
+      const result = await this.dynamodbService.repo.videos.getByChannelId(channel.id)
       return result
     } catch (error) {
       const message = error instanceof Error ? error.message : error
@@ -1,12 +1,16 @@
-import { Controller, Get, NotFoundException } from '@nestjs/common'
+import { Controller, Get, Inject, NotFoundException } from '@nestjs/common'
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger'
-import { DynamodbService } from '../../../repository'
+import { IDynamodbService } from '../../../repository'
 import { Stats } from '../../../types/youtube'
+import { IYoutubeApi } from '../../youtube/api'
 
 @Controller('youtube')
 @ApiTags('youtube')
 export class YoutubeController {
-  constructor(private dynamodbService: DynamodbService) {}
+  constructor(
+    @Inject('dynamodbService') private dynamodbService: IDynamodbService,
+    @Inject('youtube') private youtubeApi: IYoutubeApi
+  ) {}
 
   @Get('quota-usage')
   @ApiResponse({ type: Stats, isArray: true })
@@ -14,7 +18,7 @@ export class YoutubeController {
   async getAll(): Promise<Stats[]> {
     try {
       // Get complete quota usage stats
-      const stats = await this.dynamodbService.repo.stats.scan('partition', (s) => s)
+      const stats = await this.dynamodbService.repo.stats.scanAll()
       return stats
     } catch (error) {
       const message = error instanceof Error ? error.message : error
@@ -23,12 +27,14 @@ export class YoutubeController {
   }
 
   @Get('quota-usage/today')
-  @ApiResponse({ type: Stats })
-  @ApiOperation({ description: `Get youtube quota usage information for today`, deprecated: true })
-  async get(): Promise<Stats> {
+  @ApiResponse({ type: Stats, isArray: true })
+  @ApiOperation({
+    description: `Get youtube quota usage information for today (per Youtube OAuth client)`,
+    deprecated: true,
+  })
+  async get(): Promise<Stats[]> {
     try {
-      const stats = this.dynamodbService.repo.stats.getOrSetTodaysStats()
-      return stats
+      return await this.youtubeApi.getTodaysQuotaUsage()
     } catch (error) {
       const message = error instanceof Error ? error.message : error
       throw new NotFoundException(message)
@@ -3,32 +3,57 @@ import { Type } from 'class-transformer'
 import {
   IsBoolean,
   IsDate,
+  IsDateString,
   IsEmail,
   IsEnum,
+  IsIn,
+  IsInt,
   IsNumber,
   IsOptional,
   IsString,
   IsUrl,
   Matches,
+  Max,
+  MaxLength,
+  Min,
   ValidateIf,
   ValidateNested,
 } from 'class-validator'
+import { byteSizeRegex } from '../../schemas/config'
 import { Config } from '../../types'
 import {
+  ChannelSyncFilters,
   ChannelSyncStatus,
   ChannelYppStatus,
   ChannelYppStatusSuspended,
   ChannelYppStatusVerified,
   JoystreamVideo,
+  UnavailableVideoPolicies,
+  UnavailableVideoPolicy,
+  VideoCategoryMapping,
+  VideoCategoryMode,
+  VideoCategoryModes,
+  VideoProcessingStage,
   VideoState,
   YtChannel,
   YtUser,
   YtVideo,
   channelYppStatus,
+  videoProcessingStages,
 } from '../../types/youtube'
+import { SyncUtils } from '../syncProcessing/utils'
 
 // NestJS Data Transfer Objects (DTO)s
 
+// States from which the video can be requeued by the operator
+const requeueVideoStates = ['New', 'VideoCreated', 'MetadataUpdatePending'] as const
+export type RequeueVideoState = typeof requeueVideoStates[number]
+
+const MAX_TITLE_PATTERN_LENGTH = 200
+
+const duplicateVideoResolutions = ['Link', 'ForceCreate'] as const
+export type DuplicateVideoResolution = typeof duplicateVideoResolutions[number]
+
 export class ThumbnailsDto {
   @ApiProperty() default: string
   @ApiProperty() medium: string
@@ -40,6 +65,8 @@ export class StatusDto {
   @ApiProperty() version: string
   @ApiProperty() syncStatus: 'enabled' | 'disabled'
   @ApiProperty() syncBacklog: number
+  @ApiProperty({ description: 'Number of videos quarantined as duplicates, waiting to be resolved by the operator' })
+  duplicateVideos: number
 }
 
 export class CollaboratorStatusDto {
@@ -48,6 +75,20 @@ export class CollaboratorStatusDto {
   @ApiProperty() balance: string
 }
 
+export class StorageOperatorStatsDto {
+  @ApiProperty() apiEndpoint: string
+  @ApiProperty({ type: Number, isArray: true }) bucketIds: number[]
+  @ApiProperty({ description: 'No. of successful asset uploads' }) successCount: number
+  @ApiProperty({ description: 'No. of failed asset uploads & availability checks' }) failureCount: number
+  @ApiProperty() consecutiveFailures: number
+  @ApiProperty({ nullable: true, description: 'Average (smoothed) response latency in ms' }) avgLatencyMs: number | null
+  @ApiProperty({ description: 'Health score (0-1) used to rank the nodes when uploading the assets' })
+  healthScore: number
+
+  @ApiProperty({ required: false }) lastSuccessAt?: Date
+  @ApiProperty({ required: false }) lastFailureAt?: Date
+}
+
 export class ChannelInductionRequirementsDto {
   @ApiProperty({ description: 'Minimum number of subscribers required for signup' })
   MINIMUM_SUBSCRIBERS_COUNT: number
@@ -77,6 +118,37 @@ export class ChannelInductionRequirementsDto {
   }
 }
 
+export class ChannelSyncFiltersDto implements ChannelSyncFilters {
+  // Don't sync Youtube Shorts
+  @IsOptional() @IsBoolean() @ApiProperty({ required: false }) excludeShorts?: boolean
+
+  // Min video duration in seconds
+  @IsOptional() @IsInt() @Min(0) @ApiProperty({ required: false }) minDuration?: number
+
+  // Max video duration in seconds
+  @IsOptional() @IsInt() @Min(0) @ApiProperty({ required: false }) maxDuration?: number
+
+  // Only sync videos whose title contains any of given (case insensitive) comma-separated keywords (`*` & `?` wildcards allowed)
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_TITLE_PATTERN_LENGTH)
+  @ApiProperty({ required: false, maxLength: MAX_TITLE_PATTERN_LENGTH })
+  titleIncludePattern?: string
+
+  // Don't sync videos whose title contains any of given (case insensitive) comma-separated keywords (`*` & `?` wildcards allowed)
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_TITLE_PATTERN_LENGTH)
+  @ApiProperty({ required: false, maxLength: MAX_TITLE_PATTERN_LENGTH })
+  titleExcludePattern?: string
+
+  // Only sync videos published after given date (ISO 8601)
+  @IsOptional() @IsDateString() @ApiProperty({ required: false }) publishedAfter?: string
+
+  // Only sync videos published after the channel has joined YPP
+  @IsOptional() @IsBoolean() @ApiProperty({ required: false }) onlyNewVideos?: boolean
+}
+
 class ChannelSyncStatusDto {
   @ApiProperty({ description: 'No. of videos in sync backlog for the channel' }) backlogCount: number
   @ApiProperty({ description: 'ETA (seconds) to fully sync all planned videos of the channel' }) fullSyncEta: number
@@ -99,6 +171,11 @@ export class ChannelDto {
   @ApiProperty() joystreamChannelId: number
   @ApiProperty() referrerChannelId?: number
   @ApiProperty() videoCategoryId: string
+  @ApiProperty({ enum: VideoCategoryModes }) videoCategoryMode: VideoCategoryMode
+  @ApiProperty({ enum: UnavailableVideoPolicies }) unavailableVideoPolicy: UnavailableVideoPolicy
+  @ApiProperty() syncChannelProfile: boolean
+  @ApiProperty() syncLiveStreamReplays: boolean
+  @ApiProperty() syncFilters: ChannelSyncFiltersDto
   @ApiProperty() language: string
   @ApiProperty() thumbnails: ThumbnailsDto
   @ApiProperty() subscribersCount: number
@@ -113,6 +190,11 @@ export class ChannelDto {
     this.joystreamChannelId = channel.joystreamChannelId
     this.referrerChannelId = channel.referrerChannelId
     this.videoCategoryId = channel.videoCategoryId
+    this.videoCategoryMode = channel.videoCategoryMode || 'Fixed'
+    this.unavailableVideoPolicy = channel.unavailableVideoPolicy || 'Hide'
+    this.syncChannelProfile = !!channel.syncChannelProfile
+    this.syncLiveStreamReplays = !!channel.syncLiveStreamReplays
+    this.syncFilters = channel.syncFilters || {}
     this.language = channel.language
     this.shouldBeIngested = channel.shouldBeIngested
     this.yppStatus = channel.yppStatus
@@ -154,6 +236,24 @@ export class VerifyChannelRequest {
   @IsString() @ApiProperty({ required: true }) authorizationCode: string
 
   @IsUrl({ require_tld: false }) @ApiProperty({ required: true }) youtubeRedirectUri: string
+
+  // ID of the Youtube OAuth client the authorization code was issued for (primary client if not provided)
+  @IsOptional() @IsString() @ApiProperty({ required: false }) clientId?: string
+}
+
+export class ReauthorizeChannelRequest {
+  // New authorization code send to the backend after the channel owner's o-auth verification
+  @IsString() @ApiProperty({ required: true }) authorizationCode: string
+
+  @IsUrl({ require_tld: false }) @ApiProperty({ required: true }) youtubeRedirectUri: string
+
+  // ID of the Youtube OAuth client the authorization code was issued for (channel's client if not provided)
+  @IsOptional() @IsString() @ApiProperty({ required: false }) clientId?: string
+}
+
+// Dto for the Youtube OAuth client the new users should authorize the app through
+export class OAuthClientResponse {
+  @ApiProperty({ required: true }) clientId: string
 }
 
 // Dto for verified Youtube channel response
@@ -272,6 +372,14 @@ export class VideoDto extends YtVideo {
   @ApiProperty() duration: number
   @ApiProperty() language: string
   @ApiProperty() joystreamVideo: JoystreamVideo
+  @ApiProperty({ required: false }) failuresCount?: number
+  @ApiProperty({ required: false }) lastFailure?: VideoProcessingFailureDto
+  @ApiProperty({ required: false }) linkedJoystreamChannelId?: string
+}
+
+export class VideoProcessingFailureDto {
+  @ApiProperty({ enum: videoProcessingStages }) stage: VideoProcessingStage
+  @ApiProperty() message: string
 }
 
 class IngestChannelMessage {
@@ -284,6 +392,9 @@ class IngestChannelMessage {
   @ApiProperty({ required: true })
   videoCategoryId: string
 
+  // Whether to sync replays (VODs) of channel's live-streams (optional, unchanged if not provided)
+  @IsOptional() @IsBoolean() @ApiProperty({ required: false }) syncLiveStreamReplays?: boolean
+
   // Action timestamp (being used to prevent message replay)
   @Type(() => Date)
   @IsDate()
@@ -304,6 +415,35 @@ class UpdateChannelCategoryMessage {
   // VideoCategory ID (that should be added to auto synced videos)
   @IsString() @ApiProperty({ required: true }) videoCategoryId: string
 
+  // Whether to assign the above category to all synced videos, or the category mapped from their Youtube category
+  @IsOptional()
+  @IsEnum(VideoCategoryModes)
+  @ApiProperty({ required: false, enum: VideoCategoryModes })
+  videoCategoryMode?: VideoCategoryModes
+
+  // Action timestamp (being used to prevent message replay)
+  @Type(() => Date)
+  @IsDate()
+  timestamp: Date
+}
+
+class UpdateChannelSyncFiltersMessage {
+  // Filters of the channel's videos to sync (replacing the current ones)
+  @ApiProperty({ required: true })
+  @ValidateNested()
+  @Type(() => ChannelSyncFiltersDto)
+  syncFilters: ChannelSyncFiltersDto
+
+  // Action timestamp (being used to prevent message replay)
+  @Type(() => Date)
+  @IsDate()
+  timestamp: Date
+}
+
+class UpdateChannelProfileSyncMessage {
+  // Whether to enable/disable syncing of channel profile (title, description, avatar & banner) to Joystream channel
+  @IsBoolean() @ApiProperty({ required: true }) syncChannelProfile: boolean
+
   // Action timestamp (being used to prevent message replay)
   @Type(() => Date)
   @IsDate()
@@ -343,6 +483,28 @@ export class UpdateChannelCategoryDto {
   message: UpdateChannelCategoryMessage
 }
 
+export class UpdateChannelSyncFiltersDto {
+  // signature
+  @IsString() @ApiProperty({ required: true }) signature: string
+
+  // message object
+  @ApiProperty({ required: true })
+  @ValidateNested()
+  @Type(() => UpdateChannelSyncFiltersMessage)
+  message: UpdateChannelSyncFiltersMessage
+}
+
+export class UpdateChannelProfileSyncDto {
+  // signature
+  @IsString() @ApiProperty({ required: true }) signature: string
+
+  // message object
+  @ApiProperty({ required: true })
+  @ValidateNested()
+  @Type(() => UpdateChannelProfileSyncMessage)
+  message: UpdateChannelProfileSyncMessage
+}
+
 export class SuspendChannelDto {
   // Channel Id
   @IsNumber() @ApiProperty({ required: true }) joystreamChannelId: number
@@ -377,6 +539,72 @@ export class SetChannelCategoryByOperatorDto {
 
   // VideoCategory ID to set for given channel
   @IsBoolean() @ApiProperty({ required: true }) videoCategoryId: string
+
+  // Whether to assign the above category to all synced videos, or the category mapped from their Youtube category
+  @IsOptional()
+  @IsEnum(VideoCategoryModes)
+  @ApiProperty({ required: false, enum: VideoCategoryModes })
+  videoCategoryMode?: VideoCategoryModes
+}
+
+export class SetChannelLimitsByOperatorDto {
+  // Channel Id
+  @IsNumber() @ApiProperty({ required: true }) joystreamChannelId: number
+
+  // Max. no. of the synced historical videos (the limits policy applies if not provided)
+  @IsOptional() @IsInt() @Min(0) @ApiProperty({ required: false }) videoCap?: number
+
+  // Max. total size of the synced historical videos, e.g. `100G` (the limits policy applies if not provided)
+  @IsOptional()
+  @Matches(byteSizeRegex)
+  @ApiProperty({ required: false, example: '100G' })
+  sizeCap?: string
+}
+
+export class SetUnavailableVideoPolicyByOperatorDto {
+  // Channel Id
+  @IsNumber() @ApiProperty({ required: true }) joystreamChannelId: number
+
+  // Action to take on Joystream when a synced video is deleted or made private on Youtube
+  @IsEnum(UnavailableVideoPolicies)
+  @ApiProperty({ required: true, enum: UnavailableVideoPolicies })
+  unavailableVideoPolicy: UnavailableVideoPolicies
+}
+
+export class VideoIdentifierDto {
+  // Youtube channel ID of the video
+  @IsString() @ApiProperty({ required: true }) channelId: string
+
+  // Youtube video ID
+  @IsString() @ApiProperty({ required: true }) videoId: string
+}
+
+export class RequeueVideoDto extends VideoIdentifierDto {
+  // State from which the video should be (re)processed
+  @IsIn(requeueVideoStates)
+  @ApiProperty({ required: true, enum: requeueVideoStates })
+  state: RequeueVideoState
+}
+
+export class ResolveDuplicateVideoDto extends VideoIdentifierDto {
+  // How the duplicate video should be resolved ('Link' - link to the existing Joystream video, 'ForceCreate' - create the video anyway)
+  @IsIn(duplicateVideoResolutions)
+  @ApiProperty({ required: true, enum: duplicateVideoResolutions })
+  resolution: DuplicateVideoResolution
+}
+
+export class SkipVideoDto extends VideoIdentifierDto {
+  // Reason for skipping the video (recorded in the audit log)
+  @IsOptional() @IsString() @ApiProperty({ required: false }) reason?: string
+}
+
+export class SetVideoSudoPriorityDto extends VideoIdentifierDto {
+  // Sudo priority of the video (0 - lowest, 100 - highest)
+  @IsInt()
+  @Min(0)
+  @Max(SyncUtils.MAX_SUDO_PRIORITY)
+  @ApiProperty({ required: true, minimum: 0, maximum: SyncUtils.MAX_SUDO_PRIORITY })
+  sudoPriority: number
 }
 
 export class WhitelistChannelDto {
@@ -384,3 +612,25 @@ export class WhitelistChannelDto {
   @ApiProperty({ required: true })
   channelHandle: string
 }
+
+export class SetVideoCategoryMappingDto {
+  // Youtube video category ID
+  @IsString() @ApiProperty({ required: true }) ytCategoryId: string
+
+  // Joystream video category ID that the Youtube category should be mapped to
+  @IsString() @ApiProperty({ required: true }) joystreamCategoryId: string
+}
+
+export class VideoCategoryMappingDto {
+  @ApiProperty() ytCategoryId: string
+  @ApiProperty() joystreamCategoryId: string
+  @ApiProperty() createdAt: Date
+  @ApiProperty() updatedAt: Date
+
+  constructor(mapping: VideoCategoryMapping) {
+    this.ytCategoryId = mapping.ytCategoryId
+    this.joystreamCategoryId = mapping.joystreamCategoryId
+    this.createdAt = new Date(mapping.createdAt)
+    this.updatedAt = new Date(mapping.updatedAt)
+  }
+}
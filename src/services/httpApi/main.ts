@@ -8,7 +8,7 @@ import { cryptoWaitReady } from '@polkadot/util-crypto'
 import express from 'express'
 import * as fs from 'fs'
 import path from 'path'
-import { DynamodbService } from '../../repository'
+import { IDynamodbService } from '../../repository'
 import { ReadonlyConfig, formattedJSON } from '../../types'
 import { LoggingService } from '../logging'
 import { QueryNodeApi } from '../query-node/api'
@@ -20,6 +20,8 @@ import {
   ChannelsController,
   StatusController,
   UsersController,
+  VideoCategoriesController,
+  VideoOperationsController,
   VideosController,
   YoutubeController,
 } from './controllers'
@@ -59,7 +61,7 @@ async function setupQueuesDashboard(app: INestApplication, contentProcessingServ
 export async function bootstrapHttpApi(
   config: ReadonlyConfig,
   logging: LoggingService,
-  dynamodbService: DynamodbService,
+  dynamodbService: IDynamodbService,
   runtimeApi: RuntimeApi,
   queryNodeApi: QueryNodeApi,
   youtubeApi: IYoutubeApi,
@@ -80,10 +82,12 @@ export async function bootstrapHttpApi(
       YoutubeController,
       StatusController,
       MembershipController,
+      VideoOperationsController,
+      VideoCategoriesController,
     ],
     providers: [
       {
-        provide: DynamodbService,
+        provide: 'dynamodbService',
         useValue: dynamodbService,
       },
       {
@@ -110,6 +114,10 @@ export async function bootstrapHttpApi(
         provide: 'config',
         useValue: config,
       },
+      {
+        provide: LoggingService,
+        useValue: logging,
+      },
     ],
   }
 
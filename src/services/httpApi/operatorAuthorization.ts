@@ -0,0 +1,13 @@
+import { UnauthorizedException } from '@nestjs/common'
+import { ReadonlyConfig } from '../../types'
+
+/**
+ * Ensures that the request to the operator endpoint is authorized with the YPP owner key
+ * (`httpApi.ownerKey` config value) passed as the bearer token of the `authorization` header
+ */
+export function ensureOperatorAuthorization({ httpApi }: ReadonlyConfig, authorizationHeader: string): void {
+  const yppOwnerKey = authorizationHeader ? authorizationHeader.split(' ')[1] : ''
+  if (yppOwnerKey !== httpApi.ownerKey) {
+    throw new UnauthorizedException('Invalid YPP owner key')
+  }
+}
@@ -36,6 +36,8 @@ export type ChannelFieldsFragment = {
   videos: Array<{ id: string; videoStateBloatBond: any }>
   language?: Types.Maybe<{ id: string; iso: string }>
   ownerMember?: Types.Maybe<{ id: string; controllerAccount: string }>
+  avatarPhoto?: Types.Maybe<{ id: string }>
+  coverPhoto?: Types.Maybe<{ id: string }>
 }
 
 export type GetChannelByIdQueryVariables = Types.Exact<{
@@ -47,9 +49,15 @@ export type GetChannelByIdQuery = { channelByUniqueInput?: Types.Maybe<ChannelFi
 export type VideoFieldsFragment = {
   id: string
   ytVideoId?: Types.Maybe<string>
+  channel: { id: string }
   entryApp?: Types.Maybe<{ id: string; name: string }>
-  media?: Types.Maybe<{ id: string; isAccepted: boolean }>
-  thumbnailPhoto?: Types.Maybe<{ id: string; isAccepted: boolean }>
+  media?: Types.Maybe<{ id: string; isAccepted: boolean; size: any }>
+  thumbnailPhoto?: Types.Maybe<{ id: string; isAccepted: boolean; size: any }>
+  subtitles: Array<{
+    type: string
+    language?: Types.Maybe<{ iso: string }>
+    asset?: Types.Maybe<{ id: string; isAccepted: boolean; size: any }>
+  }>
 }
 
 export type GetVideoByYtResourceIdAndEntryAppNameQueryVariables = Types.Exact<{
@@ -204,6 +212,12 @@ export const ChannelFields = gql`
       id
       controllerAccount
     }
+    avatarPhoto {
+      id
+    }
+    coverPhoto {
+      id
+    }
     totalVideosCreated
   }
 `
@@ -211,6 +225,9 @@ export const VideoFields = gql`
   fragment VideoFields on Video {
     id
     ytVideoId
+    channel {
+      id
+    }
     entryApp {
       id
       name
@@ -218,10 +235,23 @@ export const VideoFields = gql`
     media {
       id
       isAccepted
+      size
     }
     thumbnailPhoto {
       id
       isAccepted
+      size
+    }
+    subtitles {
+      type
+      language {
+        iso
+      }
+      asset {
+        id
+        isAccepted
+        size
+      }
     }
   }
 `
@@ -8,6 +8,7 @@ import { DispatchError } from '@polkadot/types/interfaces/system'
 import { PalletContentStorageAssetsRecord, SpRuntimeDispatchError } from '@polkadot/types/lookup'
 import type { ISubmittableResult } from '@polkadot/types/types'
 import { IEvent } from '@polkadot/types/types'
+import AsyncLock from 'async-lock'
 import BN from 'bn.js'
 import { Logger } from 'winston'
 import { ExitCodes, RuntimeApiError } from '../../types/errors'
@@ -25,6 +26,11 @@ export class RuntimeApi {
   private api: ApiPromise
   private logger: Logger
 
+  // Next nonces of the accounts, tracked locally so that multiple txs can be sent by the
+  // same account (e.g. concurrently by the different services) without waiting for the inclusion
+  private nextNonces: Map<string, BN> = new Map()
+  private noncesLock: AsyncLock = new AsyncLock()
+
   public isDevelopment = false
 
   // if needed these could become some kind of event emitter
@@ -109,7 +115,7 @@ export class RuntimeApi {
     return event as unknown as EventType[]
   }
 
-  private formatDispatchError(err: DispatchError | SpRuntimeDispatchError): string {
+  formatDispatchError(err: DispatchError | SpRuntimeDispatchError): string {
     try {
       const { name, docs } = this.api.registry.findMetaError(err.asModule)
       return `${name} (${docs.join(', ')})`
@@ -118,10 +124,22 @@ export class RuntimeApi {
     }
   }
 
-  sendExtrinsic(keyPair: KeyringPair, tx: SubmittableExtrinsic<'promise'>): Promise<SubmittableResult> {
+  private async nextNonce(address: string): Promise<BN> {
+    return this.noncesLock.acquire(address, async () => {
+      // nonce from the node includes the txs of the account that are in the tx pool
+      const nodeNonce = (await this.api.rpc.system.accountNextIndex(address)).toBn()
+      const trackedNonce = this.nextNonces.get(address)
+      const nonce = trackedNonce && trackedNonce.gt(nodeNonce) ? trackedNonce : nodeNonce
+      this.nextNonces.set(address, nonce.addn(1))
+      return nonce
+    })
+  }
+
+  async sendExtrinsic(keyPair: KeyringPair, tx: SubmittableExtrinsic<'promise'>): Promise<SubmittableResult> {
+    const nonce = await this.nextNonce(keyPair.address)
     return new Promise((resolve, reject) => {
       let unsubscribe: () => void
-      tx.signAndSend(keyPair, {}, (result) => {
+      tx.signAndSend(keyPair, { nonce }, (result) => {
         if (!result || !result.status) {
           return
         }
@@ -141,13 +159,16 @@ export class RuntimeApi {
               }
             })
         } else if (result.isError) {
+          this.nextNonces.delete(keyPair.address)
           reject(new ExtrinsicFailedError('Extrinsic execution error!'))
         }
       })
         .then((unsubFunc) => (unsubscribe = unsubFunc))
-        .catch((e) =>
+        .catch((e) => {
+          // tx wasn't accepted to the tx pool, so the tracked nonce is resynced with the node on the next tx
+          this.nextNonces.delete(keyPair.address)
           reject(new ExtrinsicFailedError(`Cannot send the extrinsic: ${e.message ? e.message : JSON.stringify(e)}`))
-        )
+        })
     })
   }
 
@@ -191,4 +212,56 @@ export class RuntimeApi {
     const tx = this.api.tx.content.createVideo({ Member: memberId }, channelId, creationParameters)
     return tx
   }
+
+  prepareUpdateVideoTx(
+    memberId: string,
+    videoId: string,
+    extrinsicDefaults: CreateVideoExtrinsicDefaults,
+    newMeta: Bytes,
+    assetsToUpload: Option<PalletContentStorageAssetsRecord>,
+    assetsToRemove: string[]
+  ): SubmittableExtrinsic<'promise', ISubmittableResult> {
+    const isUpdatingAssets = assetsToUpload.isSome || assetsToRemove.length > 0
+    const updateParameters = createType('PalletContentVideoUpdateParametersRecord', {
+      newMeta,
+      assetsToUpload,
+      assetsToRemove: createType(
+        'BTreeSet<u64>',
+        assetsToRemove.map((id) => new BN(id))
+      ),
+      // storage buckets witness is only required if video assets are being changed
+      storageBucketsNumWitness: isUpdatingAssets ? extrinsicDefaults.storageBucketsNumWitness : null,
+      expectedDataObjectStateBloatBond: extrinsicDefaults.expectedDataObjectStateBloatBond,
+      autoIssueNft: null,
+    })
+
+    const tx = this.api.tx.content.updateVideo({ Member: memberId }, videoId, updateParameters)
+    return tx
+  }
+
+  prepareUpdateChannelTx(
+    memberId: string,
+    channelId: number,
+    extrinsicDefaults: CreateVideoExtrinsicDefaults,
+    newMeta: Bytes,
+    assetsToUpload: Option<PalletContentStorageAssetsRecord>,
+    assetsToRemove: string[]
+  ): SubmittableExtrinsic<'promise', ISubmittableResult> {
+    const isUpdatingAssets = assetsToUpload.isSome || assetsToRemove.length > 0
+    const updateParameters = createType('PalletContentChannelUpdateParametersRecord', {
+      newMeta,
+      assetsToUpload,
+      assetsToRemove: createType(
+        'BTreeSet<u64>',
+        assetsToRemove.map((id) => new BN(id))
+      ),
+      // storage buckets witness is only required if channel assets are being changed
+      storageBucketsNumWitness: isUpdatingAssets ? extrinsicDefaults.storageBucketsNumWitness : null,
+      expectedDataObjectStateBloatBond: extrinsicDefaults.expectedDataObjectStateBloatBond,
+      collaborators: null,
+    })
+
+    const tx = this.api.tx.content.updateChannel({ Member: memberId }, channelId, updateParameters)
+    return tx
+  }
 }
@@ -2,8 +2,10 @@ import ffprobeInstaller from '@ffprobe-installer/ffprobe'
 import {
   AppAction,
   AppActionMetadata,
+  ChannelMetadata,
   ContentMetadata,
   IAppAction,
+  IChannelMetadata,
   ILicense,
   IVideoMetadata,
   VideoMetadata,
@@ -12,7 +14,10 @@ import { createType } from '@joystream/types'
 import { SubmittableExtrinsic } from '@polkadot/api/types'
 import { Bytes } from '@polkadot/types'
 import { Option } from '@polkadot/types/'
-import { PalletContentStorageAssetsRecord } from '@polkadot/types/lookup'
+import {
+  PalletContentIterableEnumsChannelActionPermission as ChannelActionPermission,
+  PalletContentStorageAssetsRecord,
+} from '@polkadot/types/lookup'
 import type { ISubmittableResult } from '@polkadot/types/types'
 import axios from 'axios'
 import BN from 'bn.js'
@@ -24,8 +29,8 @@ import { Readable } from 'stream'
 import { Logger } from 'winston'
 import { ReadonlyConfig } from '../../types'
 import { ExitCodes, RuntimeApiError } from '../../types/errors'
-import { Thumbnails, YtVideo } from '../../types/youtube'
-import { AppActionSignatureInput, signAppActionCommitmentForVideo } from '../../utils/hasher'
+import { JoystreamVideo, YtChannel, YtVideo } from '../../types/youtube'
+import { AppActionSignatureInput, FileHash, signAppActionCommitmentForVideo } from '../../utils/hasher'
 import { LoggingService } from '../logging'
 import { QueryNodeApi } from '../query-node/api'
 import { MembershipFieldsFragment as Membership } from '../query-node/generated/queries'
@@ -34,6 +39,9 @@ import { CreateVideoExtrinsicDefaults, RuntimeApi } from './api'
 import { asValidatedMetadata, metadataToBytes } from './serialization'
 import { AccountsUtil } from './signer'
 import {
+  ChannelAssets,
+  ChannelAssetsIds,
+  ChannelInputMetadata,
   DataObjectMetadata,
   VideoFFProbeMetadata,
   VideoFileMetadata,
@@ -62,6 +70,16 @@ export class JoystreamClient {
     return this.config.joystream.channelCollaborator.memberId.toString()
   }
 
+  // IDs of all the collaborator members used for creating the videos (the main one & the pool members)
+  private get collaboratorIds(): string[] {
+    const pool = this.config.joystream.channelCollaboratorsPool || []
+    return [this.collaboratorId, ...pool.map(({ memberId }) => memberId.toString())]
+  }
+
+  get collaboratorsCount(): number {
+    return this.collaboratorIds.length
+  }
+
   async channelById(id: number) {
     return this.runtimeApi.query.content.channelById(id)
   }
@@ -115,22 +133,93 @@ export class JoystreamClient {
     return member
   }
 
-  async doesChannelHaveCollaborator(channelId: number) {
+  /**
+   * @returns collaborator members (the main one & the pool members) whose controller
+   * accounts have enough free balance to submit the video creation transactions
+   */
+  async getAvailableCollaboratorMembers(): Promise<Membership[]> {
+    const ONE_JOY = new BN(10_000_000_000)
+    const minBalance = ONE_JOY.muln(this.config.joystream.minCollaboratorBalance || 0)
+    const members = await this.qnApi.membersByIds(this.collaboratorIds)
+
+    const availableMembers: Membership[] = []
+    for (const member of members) {
+      const { data } = await this.runtimeApi.query.system.account(member.controllerAccount)
+      if (data.free.lt(minBalance)) {
+        this.logger.warn(`Collaborator controller account has insufficient balance, skipping it...`, {
+          memberId: member.id,
+          controllerAccount: member.controllerAccount,
+          balance: data.free.toString(),
+        })
+        continue
+      }
+      availableMembers.push(member)
+    }
+    return availableMembers
+  }
+
+  /**
+   * @returns IDs of the collaborator members (the main one & the pool members) that are set
+   * as the collaborators of the channel (with the required permissions)
+   */
+  async channelCollaboratorIds(
+    channelId: number,
+    requiredPermissions: ChannelActionPermission['type'][] = ['AddVideo']
+  ): Promise<string[]> {
     const { collaborators } = await this.channelById(channelId)
-    const isCollaboratorSet = [...collaborators].some(
-      ([member, permissions]) => member.toString() === this.collaboratorId && [...permissions].some((p) => p.isAddVideo)
-    )
+    return [...collaborators]
+      .filter(
+        ([member, permissions]) =>
+          this.collaboratorIds.includes(member.toString()) &&
+          requiredPermissions.every((required) => [...permissions].some((p) => p.type === required))
+      )
+      .map(([member]) => member.toString())
+  }
 
-    return isCollaboratorSet
+  /**
+   * @returns collaborator member (the main one if it's set, otherwise any of the pool members) that is set as
+   * the collaborator of the channel with the required permissions, used for acting on the channel & its videos
+   */
+  private async channelCollaboratorMember(channelId: number, requiredPermissions: ChannelActionPermission['type'][]) {
+    const memberIds = await this.channelCollaboratorIds(channelId, requiredPermissions)
+    const memberId = memberIds.includes(this.collaboratorId) ? this.collaboratorId : memberIds[0]
+    const member = memberId ? await this.qnApi.memberById(memberId) : undefined
+    if (!member) {
+      throw new RuntimeApiError(
+        ExitCodes.RuntimeApi.COLLABORATOR_NOT_FOUND,
+        `None of the collaborator members is allowed to perform ${requiredPermissions.join(', ')} ` +
+          `action(s) on Joystream channel ${channelId}`
+      )
+    }
+    return member
   }
 
+  /**
+   * Sends the create video txs using (non-atomic) `utility.batch` call. If one of the calls fails, the
+   * batch is interrupted: the preceding calls remain executed, while the following ones aren't executed.
+   * @returns created videos (in the order of the executed calls) & the index & dispatch error of the failed call
+   */
   async sendBatchExtrinsic(account: string, txs: SubmittableExtrinsic<'promise', ISubmittableResult>[]) {
     const keyPair = this.accounts.getPair(account)
-    const batchTx = this.runtimeApi.tx.utility.batchAll(txs)
+    const batchTx = this.runtimeApi.tx.utility.batch(txs)
+
+    // ensure that the account can pay the transaction fee
+    const [fee, { data }] = await Promise.all([
+      this.runtimeApi.estimateFee(keyPair, batchTx),
+      this.runtimeApi.query.system.account(account),
+    ])
+    if (data.free.lt(fee)) {
+      throw new RuntimeApiError(
+        ExitCodes.RuntimeApi.INSUFFICIENT_BALANCE,
+        `Account ${account} has insufficient balance (${data.free}) to pay the transaction fee (${fee})`
+      )
+    }
+
     const result = await this.runtimeApi.sendExtrinsic(keyPair, batchTx)
     const blockHash = result.status.isInBlock ? result.status.asInBlock : result.status.asFinalized
 
-    const events = this.runtimeApi.getEvents(result, 'content', 'VideoCreated')
+    const events = this.runtimeApi.filterRecords(result, 'content', 'VideoCreated')
+    const [batchInterrupted] = this.runtimeApi.filterRecords(result, 'utility', 'BatchInterrupted')
     return {
       blockNumber: (await this.runtimeApi.rpc.chain.getHeader(blockHash)).number.toBn(),
       result: events.map(({ data }) => ({
@@ -139,6 +228,10 @@ export class JoystreamClient {
           assetIds: [...data[4]].map((a) => a.toString()),
         },
       })),
+      failure: batchInterrupted && {
+        index: batchInterrupted.data[0].toNumber(),
+        error: this.runtimeApi.formatDispatchError(batchInterrupted.data[1]),
+      },
     }
   }
 
@@ -172,6 +265,149 @@ export class JoystreamClient {
     return createdVideoTx
   }
 
+  /**
+   * Updates the metadata (title, description & category) of an already synced video, and if
+   * `thumbnailHash` is provided, replaces the video's thumbnail data object with a new one.
+   * Note: the update isn't wrapped in a (re-signed) app action, as the metadata protocol only defines
+   * app actions for the video & channel creation (`AppAction.ActionType`), and the video keeps the app
+   * attribution it was created with.
+   * @returns joystream video with updated data object IDs
+   */
+  async updateVideo(video: YtVideo, thumbnailHash?: FileHash): Promise<JoystreamVideo> {
+    const videoInputParameters: VideoInputParameters = {
+      title: video.title,
+      description: video.description,
+      category: video.category,
+      // republish the video only if it was hidden by the app, otherwise its visibility is kept
+      ...(video.isHiddenOnJoystream && { isPublic: true }),
+    }
+    return this.sendUpdateVideoTx(video, asValidatedMetadata(VideoMetadata, videoInputParameters), thumbnailHash)
+  }
+
+  // Hides the synced video on Joystream (e.g. when it was made private on Youtube)
+  async hideVideo(video: YtVideo): Promise<void> {
+    await this.sendUpdateVideoTx(video, { isPublic: false })
+  }
+
+  // Deletes the synced video along with all of its assets on Joystream
+  async deleteVideo(video: YtVideo): Promise<void> {
+    const collaborator = await this.channelCollaboratorMember(video.joystreamChannelId, ['DeleteVideo'])
+    const { storageBucketsNumWitness } = await this.createVideoExtrinsicDefaults(video.joystreamChannelId)
+    const numOfObjectsToDelete = video.joystreamVideo.assetIds.length
+
+    const deleteVideoTx = this.runtimeApi.tx.content.deleteVideo(
+      { Member: collaborator.id },
+      video.joystreamVideo.id,
+      numOfObjectsToDelete,
+      createType('Option<u32>', numOfObjectsToDelete ? storageBucketsNumWitness : null)
+    )
+
+    const keyPair = this.accounts.getPair(collaborator.controllerAccount)
+    await this.runtimeApi.sendExtrinsic(keyPair, deleteVideoTx)
+  }
+
+  /**
+   * Updates the metadata (title & description) of the Joystream channel, and replaces the channel's avatar
+   * and/or cover photo data objects with the new ones, if the corresponding asset hashes are provided.
+   * @returns IDs of the newly created channel data objects
+   */
+  async updateChannelProfile(
+    channel: YtChannel,
+    { avatarPhoto, coverPhoto }: ChannelAssets<FileHash>
+  ): Promise<ChannelAssetsIds> {
+    const collaborator = await this.channelCollaboratorMember(channel.joystreamChannelId, [
+      'UpdateChannelMetadata',
+      'ManageNonVideoChannelAssets',
+    ])
+    const extrinsicDefaults = await this.createVideoExtrinsicDefaults(channel.joystreamChannelId)
+    const qnChannel = await this.qnApi.getChannelById(channel.joystreamChannelId.toString())
+
+    const channelInputParameters: ChannelInputMetadata = {
+      title: channel.title,
+      description: channel.description,
+    }
+    const channelMetadata: IChannelMetadata = asValidatedMetadata(ChannelMetadata, channelInputParameters)
+
+    // prepare data objects, assign proper indexes in metadata & replace the old data objects
+    const dataObjectsMetadata: DataObjectMetadata[] = []
+    const assetsToRemove: string[] = []
+    if (avatarPhoto) {
+      channelMetadata.avatarPhoto = dataObjectsMetadata.length
+      dataObjectsMetadata.push({ ipfsHash: avatarPhoto.hash, size: avatarPhoto.size })
+      assetsToRemove.push(...(qnChannel?.avatarPhoto ? [qnChannel.avatarPhoto.id] : []))
+    }
+    if (coverPhoto) {
+      channelMetadata.coverPhoto = dataObjectsMetadata.length
+      dataObjectsMetadata.push({ ipfsHash: coverPhoto.hash, size: coverPhoto.size })
+      assetsToRemove.push(...(qnChannel?.coverPhoto ? [qnChannel.coverPhoto.id] : []))
+    }
+
+    const newMeta = metadataToBytes(ChannelMetadata, channelMetadata)
+    const assetsToUpload = prepareAssetsForExtrinsic(extrinsicDefaults.perMegabyteFee, dataObjectsMetadata)
+
+    const updateChannelTx = this.runtimeApi.prepareUpdateChannelTx(
+      collaborator.id,
+      channel.joystreamChannelId,
+      extrinsicDefaults,
+      newMeta,
+      assetsToUpload,
+      assetsToRemove
+    )
+
+    const keyPair = this.accounts.getPair(collaborator.controllerAccount)
+    const result = await this.runtimeApi.sendExtrinsic(keyPair, updateChannelTx)
+    const [{ data }] = this.runtimeApi.getEvents(result, 'content', 'ChannelUpdated')
+    const newAssetIds = [...data[3]].map((a) => a.toString())
+
+    return {
+      avatarPhoto: avatarPhoto ? newAssetIds.shift() : undefined,
+      coverPhoto: coverPhoto ? newAssetIds.shift() : undefined,
+    }
+  }
+
+  private async sendUpdateVideoTx(
+    video: YtVideo,
+    videoMetadata: IVideoMetadata,
+    thumbnailHash?: FileHash
+  ): Promise<JoystreamVideo> {
+    const collaborator = await this.channelCollaboratorMember(
+      video.joystreamChannelId,
+      thumbnailHash ? ['UpdateVideoMetadata', 'ManageVideoAssets'] : ['UpdateVideoMetadata']
+    )
+    const extrinsicDefaults = await this.createVideoExtrinsicDefaults(video.joystreamChannelId)
+    const [mediaAssetId, thumbnailAssetId, ...subtitlesAssetIds] = video.joystreamVideo.assetIds
+
+    // replace the old thumbnail data object with the new one
+    const dataObjectsMetadata: DataObjectMetadata[] = []
+    if (thumbnailHash) {
+      dataObjectsMetadata.push({ ipfsHash: thumbnailHash.hash, size: thumbnailHash.size })
+      videoMetadata.thumbnailPhoto = 0
+    }
+
+    const newMeta = metadataToBytes(ContentMetadata, { videoMetadata })
+    const assetsToUpload = prepareAssetsForExtrinsic(extrinsicDefaults.perMegabyteFee, dataObjectsMetadata)
+    const assetsToRemove = thumbnailHash && thumbnailAssetId ? [thumbnailAssetId] : []
+
+    const updateVideoTx = this.runtimeApi.prepareUpdateVideoTx(
+      collaborator.id,
+      video.joystreamVideo.id,
+      extrinsicDefaults,
+      newMeta,
+      assetsToUpload,
+      assetsToRemove
+    )
+
+    const keyPair = this.accounts.getPair(collaborator.controllerAccount)
+    const result = await this.runtimeApi.sendExtrinsic(keyPair, updateVideoTx)
+    const [{ data }] = this.runtimeApi.getEvents(result, 'content', 'VideoUpdated')
+    const [newThumbnailAssetId] = [...data[3]].map((a) => a.toString())
+
+    return {
+      id: video.joystreamVideo.id,
+      assetIds: [mediaAssetId, newThumbnailAssetId || thumbnailAssetId, ...subtitlesAssetIds],
+    }
+  }
+
   private async prepareAppActionInput(appId: string, appActionSignatureInput: AppActionSignatureInput): Promise<Bytes> {
     const appActionSignature = await signAppActionCommitmentForVideo(appActionSignatureInput, this.accounts.appAuthKey)
     const appActionInput: IAppAction = {
@@ -187,7 +423,7 @@ export class JoystreamClient {
   private prepareVideoInput(
     { perMegabyteFee }: CreateVideoExtrinsicDefaults,
     video: YtVideo,
-    { thumbnailHash, mediaHash, mediaMetadata }: VideoMetadataAndHash
+    { thumbnailHash, mediaHash, mediaMetadata, subtitles }: VideoMetadataAndHash
   ): { meta: Bytes; assets: Option<PalletContentStorageAssetsRecord> } {
     const inputAssets: VideoInputAssets = {}
     inputAssets.video = { ipfsHash: mediaHash.hash, size: mediaHash.size }
@@ -218,6 +454,14 @@ export class JoystreamClient {
       videoMetadata.thumbnailPhoto = inputAssets.video ? 1 : 0
     }
 
+    // subtitles data objects are placed after the video & thumbnail data objects
+    if (subtitles?.length) {
+      videoMetadata.subtitles = subtitles.map(({ type, language, hash }) => {
+        dataObjectsMetadata.push({ ipfsHash: hash.hash, size: hash.size })
+        return { type, language, mimeType: 'text/vtt', newAsset: dataObjectsMetadata.length - 1 }
+      })
+    }
+
     const meta = metadataToBytes(ContentMetadata, { videoMetadata })
     const assets = prepareAssetsForExtrinsic(perMegabyteFee, dataObjectsMetadata)
 
@@ -225,10 +469,9 @@ export class JoystreamClient {
   }
 }
 
-export async function getThumbnailAsset(thumbnails: Thumbnails) {
+export async function getImageAsset(url: string) {
   try {
-    // * We are using `medium` thumbnail because it has correct aspect ratio for Atlas (16/9)
-    const response = await axios.get<Readable>(thumbnails.medium, { responseType: 'stream' })
+    const response = await axios.get<Readable>(url, { responseType: 'stream' })
     return response.data
   } catch (error) {
     if (axios.isAxiosError(error)) {
@@ -238,6 +481,35 @@ export async function getThumbnailAsset(thumbnails: Thumbnails) {
   }
 }
 
+// Downloads the image into the memory (e.g. to hash & upload the same image data)
+export async function getImageData(url: string): Promise<Buffer> {
+  try {
+    const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer' })
+    return Buffer.from(response.data)
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw error.toJSON()
+    }
+    throw error
+  }
+}
+
+/**
+ * @returns ETag (or the last modification time, if not provided) of the image, i.e. the value
+ * that changes when the image is replaced, even if it's still served under the same URL
+ */
+export async function getImageEtag(url: string): Promise<string | undefined> {
+  try {
+    const { headers } = await axios.head(url)
+    return headers['etag'] || headers['last-modified'] || undefined
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw error.toJSON()
+    }
+    throw error
+  }
+}
+
 function prepareAssetsForExtrinsic(
   perMegabyteFee: BN,
   dataObjectsMetadata: DataObjectMetadata[]
@@ -28,14 +28,17 @@ export class AccountsUtil {
 
   private initKeyring(): void {
     this.keyring = new Keyring({ type: 'sr25519', ss58Format: JOYSTREAM_ADDRESS_PREFIX })
-    this.config.channelCollaborator.account?.forEach((keyData) => {
-      if ('suri' in keyData) {
-        this.keyring.addFromUri(keyData.suri)
-      }
-      if ('mnemonic' in keyData) {
-        this.keyring.addFromMnemonic(keyData.mnemonic)
-      }
-    })
+    const collaborators = [this.config.channelCollaborator, ...(this.config.channelCollaboratorsPool || [])]
+    collaborators.forEach(({ account }) =>
+      account?.forEach((keyData) => {
+        if ('suri' in keyData) {
+          this.keyring.addFromUri(keyData.suri)
+        }
+        if ('mnemonic' in keyData) {
+          this.keyring.addFromMnemonic(keyData.mnemonic)
+        }
+      })
+    )
   }
 
   getPair(addressOrPublicKey: string): KeyringPair {
@@ -83,7 +83,8 @@ export type StorageNodeInfo = {
 
 export type AssetUploadInput = {
   dataObjectId: DataObjectId
-  file: Readable
+  // opens the asset file stream, called on every upload attempt (stream can't be reused after failed attempt)
+  file: () => Promise<Readable>
 }
 
 export type VideoFFProbeMetadata = {
@@ -3,15 +3,15 @@ import axios from 'axios'
 import BN from 'bn.js'
 import FormData from 'form-data'
 import fs from 'fs'
-import _ from 'lodash'
 import pWaitFor from 'p-wait-for'
+import { Readable } from 'stream'
 import { Logger } from 'winston'
 import { ExitCodes, StorageApiError } from '../../types/errors'
 import { YtVideo } from '../../types/youtube'
 import { LoggingService } from '../logging'
 import { QueryNodeApi } from '../query-node/api'
-import { getThumbnailAsset } from '../runtime/client'
-import { AssetUploadInput, StorageNodeInfo } from '../runtime/types'
+import { AssetUploadInput, ChannelAssets, StorageNodeInfo } from '../runtime/types'
+import { StorageNodesStats } from './stats'
 
 export type OperatorInfo = { id: string; endpoint: string }
 export type OperatorsMapping = Record<string, OperatorInfo>
@@ -28,38 +28,109 @@ export class StorageNodeApi {
     this.logger = logging.createLogger('StorageNodeApi')
   }
 
-  async uploadVideo(video: YtVideo, videoFilePath: string): Promise<void> {
+  /**
+   * Uploads video assets. Assets already accepted by the storage node (e.g. during the previous
+   * partially failed upload) are skipped, so the upload is resumed per asset.
+   * @param subtitlesFilePaths paths of the subtitles files, in the same order as `video.subtitles`
+   */
+  async uploadVideo(
+    video: YtVideo,
+    videoFilePath: string,
+    thumbnailFilePath: string,
+    subtitlesFilePaths: string[] = []
+  ): Promise<void> {
     const assetsInput: AssetUploadInput[] = [
       {
         dataObjectId: createType('u64', new BN(video.joystreamVideo.assetIds[0])),
-        file: fs.createReadStream(videoFilePath),
+        file: async () => fs.createReadStream(videoFilePath),
       },
       {
         dataObjectId: createType('u64', new BN(video.joystreamVideo.assetIds[1])),
-        file: await getThumbnailAsset(video.thumbnails),
+        file: async () => fs.createReadStream(thumbnailFilePath),
+      },
+      ...subtitlesFilePaths.map((filePath, i) => ({
+        dataObjectId: createType('u64', new BN(video.joystreamVideo.assetIds[2 + i])),
+        file: async () => fs.createReadStream(filePath),
+      })),
+    ]
+
+    const qnVideo = await this.queryNodeApi.videoById(video.joystreamVideo.id)
+    const acceptedAssetIds = [
+      qnVideo?.media,
+      qnVideo?.thumbnailPhoto,
+      ...(qnVideo?.subtitles || []).map((s) => s.asset),
+    ]
+      .filter((asset) => asset?.isAccepted)
+      .map((asset) => asset?.id)
+    if (acceptedAssetIds.length) {
+      this.logger.debug('Skipping already accepted assets', { videoId: video.id, acceptedAssetIds })
+    }
+
+    return this.upload(assetsInput.filter(({ dataObjectId }) => !acceptedAssetIds.includes(dataObjectId.toString())))
+  }
+
+  async uploadThumbnail(video: YtVideo, thumbnailFilePath: string): Promise<void> {
+    const assetsInput: AssetUploadInput[] = [
+      {
+        dataObjectId: createType('u64', new BN(video.joystreamVideo.assetIds[1])),
+        file: async () => fs.createReadStream(thumbnailFilePath),
       },
     ]
     return this.upload(assetsInput)
   }
 
+  /**
+   * Uploads channel avatar/cover photo
+   * @param assets mapping of the channel data object IDs to the data of the images to upload
+   */
+  async uploadChannelAssets(assets: ChannelAssets<{ dataObjectId: string; data: Buffer }>): Promise<void> {
+    const assetsInput: AssetUploadInput[] = []
+    for (const asset of [assets.avatarPhoto, assets.coverPhoto]) {
+      if (asset) {
+        assetsInput.push({
+          dataObjectId: createType('u64', new BN(asset.dataObjectId)),
+          file: async () => Readable.from(asset.data),
+        })
+      }
+    }
+    return assetsInput.length ? this.upload(assetsInput) : undefined
+  }
+
   private async upload(assets: AssetUploadInput[]) {
-    // Since both assets belong to the same bag, we can use any asset ID to get bag info
+    if (!assets.length) {
+      return
+    }
+
+    // Since all assets belong to the same bag, we can use any asset ID to get bag info
     const assetId = assets[0].dataObjectId.toString()
     await pWaitFor(async () => !!(await this.queryNodeApi.getStorageBagInfoForAsset(assetId, false)))
     const bagId = (await this.queryNodeApi.getStorageBagInfoForAsset(assetId)) || ''
 
-    // Get a random active storage node for given bag
-    const operator = await this.getRandomActiveStorageNodeInfo(bagId)
-    if (!operator) {
+    // Get active storage nodes of the buckets storing given bag
+    const operators = await this.getActiveStorageNodesInfo(bagId)
+    if (!operators.length) {
       throw new StorageApiError(ExitCodes.StorageApi.NO_ACTIVE_STORAGE_PROVIDER, 'No active storage node found')
     }
 
-    for (const { dataObjectId, file } of assets) {
+    // Assets are uploaded one by one, so the failed upload of an asset doesn't restart the upload of previous ones
+    for (const asset of assets) {
+      await this.uploadAsset(bagId, asset, operators)
+    }
+  }
+
+  /**
+   * Uploads the asset to one of the given storage nodes. Nodes are tried in the order of their health score
+   * (see `StorageNodesStats`), and if the upload to a node fails, it's restarted on the next one.
+   */
+  private async uploadAsset(bagId: string, { dataObjectId, file }: AssetUploadInput, operators: StorageNodeInfo[]) {
+    let lastError: unknown
+    for (const operator of StorageNodesStats.rank(operators)) {
+      const fileStream = await file()
       try {
-        this.logger.debug('Uploading asset', { dataObjectId: dataObjectId.toString() })
+        this.logger.debug('Uploading asset', { dataObjectId: dataObjectId.toString(), operator })
 
         const formData = new FormData()
-        formData.append('file', file, 'video.mp4')
+        formData.append('file', fileStream, 'video.mp4')
         await axios.post<VideoUploadResponse>(`${operator.apiEndpoint}/files`, formData, {
           params: {
             dataObjectId: dataObjectId.toString(),
@@ -74,9 +145,11 @@ export class StorageNodeApi {
             ...formData.getHeaders(),
           },
         })
+        StorageNodesStats.recordSuccess(operator)
+        return
       } catch (error) {
         // destroy the file stream
-        file.destroy()
+        fileStream.destroy()
 
         if (axios.isAxiosError(error) && error.response) {
           const storageNodeUrl = error.config?.url
@@ -84,36 +157,58 @@ export class StorageNodeApi {
 
           if (data?.message?.includes(`Data object ${dataObjectId} has already been accepted by storage node`)) {
             // No need to throw an error, we can continue with the next asset
-            continue
+            return
           }
 
           this.logger.error(`${storageNodeUrl} - errorCode: ${status}, msg: ${data?.message}`)
         }
 
-        throw error
+        // Client errors (e.g. the bag not being yet known to the node) don't affect the node's health
+        if (!axios.isAxiosError(error) || !error.response || error.response.status >= 500) {
+          StorageNodesStats.recordFailure(operator)
+        }
+
+        this.logger.warn(`Failed to upload asset to storage node, trying the next active node (if any)`, {
+          dataObjectId: dataObjectId.toString(),
+          operator,
+        })
+        lastError = error
       }
     }
+
+    throw lastError
   }
 
-  private async getRandomActiveStorageNodeInfo(
-    bagId: string,
-    retryTime = 6,
-    retryCount = 5
-  ): Promise<StorageNodeInfo | null> {
+  /**
+   * @returns storage nodes (of the buckets storing given bag) that respond to the `/version`
+   * request, ordered by their health score, the response latency is recorded in the node stats.
+   */
+  private async getActiveStorageNodesInfo(bagId: string, retryTime = 6, retryCount = 5): Promise<StorageNodeInfo[]> {
     for (let i = 0; i <= retryCount; ++i) {
-      const nodesInfo = _.shuffle(await this.queryNodeApi.storageNodesInfoByBagId(bagId))
-      for (const info of nodesInfo) {
-        try {
-          await axios.get(info.apiEndpoint + '/version', {
-            headers: {
-              connection: 'close',
-            },
-          })
-          return info
-        } catch (err) {
-          continue
-        }
+      const nodesInfo = await this.queryNodeApi.storageNodesInfoByBagId(bagId)
+      const activeNodes = await Promise.all(
+        nodesInfo.map(async (info) => {
+          try {
+            const startTime = Date.now()
+            await axios.get(info.apiEndpoint + '/version', {
+              headers: {
+                connection: 'close',
+              },
+            })
+            StorageNodesStats.recordLatency(info, Date.now() - startTime)
+            return info
+          } catch (err) {
+            StorageNodesStats.recordFailure(info)
+            return null
+          }
+        })
+      )
+
+      const activeNodesInfo = activeNodes.filter((info): info is StorageNodeInfo => info !== null)
+      if (activeNodesInfo.length) {
+        return StorageNodesStats.rank(activeNodesInfo)
       }
+
       if (i !== retryCount) {
         this.logger.warn(
           `No storage provider can serve the request yet, retrying in ${retryTime}s (${i + 1}/${retryCount})...`
@@ -122,6 +217,6 @@ export class StorageNodeApi {
       }
     }
 
-    return null
+    return []
   }
 }
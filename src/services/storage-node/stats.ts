@@ -0,0 +1,102 @@
+import { StorageNodeInfo } from '../runtime/types'
+
+export type StorageOperatorStats = {
+  apiEndpoint: string
+  bucketIds: number[]
+  successCount: number
+  failureCount: number
+  consecutiveFailures: number
+  avgLatencyMs: number | null
+  lastSuccessAt?: Date
+  lastFailureAt?: Date
+}
+
+/**
+ * Tracks the success rate & latency of the storage operators (nodes) the assets are uploaded to, which
+ * is used to rank the nodes of the bag's buckets by their health. Stats are shared by all the upload services.
+ */
+export class StorageNodesStats {
+  // weight of the new latency sample in the exponential moving average
+  private static readonly LATENCY_SMOOTHING = 0.3
+
+  // latency (ms) that halves the health score of the node
+  private static readonly REFERENCE_LATENCY_MS = 1000
+
+  private static readonly operators = new Map<string, StorageOperatorStats>()
+
+  private static get(node: StorageNodeInfo): StorageOperatorStats {
+    let stats = this.operators.get(node.apiEndpoint)
+    if (!stats) {
+      stats = {
+        apiEndpoint: node.apiEndpoint,
+        bucketIds: [],
+        successCount: 0,
+        failureCount: 0,
+        consecutiveFailures: 0,
+        avgLatencyMs: null,
+      }
+      this.operators.set(node.apiEndpoint, stats)
+    }
+    if (!stats.bucketIds.includes(node.bucketId)) {
+      stats.bucketIds.push(node.bucketId)
+    }
+    return stats
+  }
+
+  static recordLatency(node: StorageNodeInfo, latencyMs: number) {
+    const stats = this.get(node)
+    stats.avgLatencyMs =
+      stats.avgLatencyMs === null
+        ? latencyMs
+        : this.LATENCY_SMOOTHING * latencyMs + (1 - this.LATENCY_SMOOTHING) * stats.avgLatencyMs
+  }
+
+  static recordSuccess(node: StorageNodeInfo) {
+    const stats = this.get(node)
+    stats.successCount++
+    stats.consecutiveFailures = 0
+    stats.lastSuccessAt = new Date()
+  }
+
+  static recordFailure(node: StorageNodeInfo) {
+    const stats = this.get(node)
+    stats.failureCount++
+    stats.consecutiveFailures++
+    stats.lastFailureAt = new Date()
+  }
+
+  /**
+   * @returns health score of the node in (0, 1) range, based on its (smoothed) success rate,
+   * average latency & recent consecutive failures. Unknown nodes get the neutral score.
+   */
+  static healthScore(node: StorageNodeInfo): number {
+    return this.score(this.get(node))
+  }
+
+  private static score({ successCount, failureCount, consecutiveFailures, avgLatencyMs }: StorageOperatorStats) {
+    const successRate = (successCount + 1) / (successCount + failureCount + 2)
+    const latencyFactor = this.REFERENCE_LATENCY_MS / (this.REFERENCE_LATENCY_MS + (avgLatencyMs ?? 0))
+    return successRate * latencyFactor * Math.pow(0.5, consecutiveFailures)
+  }
+
+  /**
+   * Orders the nodes by weighted random selection (weights being the health scores), so that the healthiest
+   * nodes are preferred, while the other nodes still get some traffic (& the chance to recover their score).
+   */
+  static rank(nodes: StorageNodeInfo[]): StorageNodeInfo[] {
+    const candidates = nodes.map((node) => ({ node, weight: this.healthScore(node) }))
+    const ranked: StorageNodeInfo[] = []
+    while (candidates.length) {
+      const totalWeight = candidates.reduce((sum, c) => sum + c.weight, 0)
+      let threshold = Math.random() * totalWeight
+      const index = candidates.findIndex((c) => (threshold -= c.weight) <= 0)
+      const [{ node }] = candidates.splice(index === -1 ? candidates.length - 1 : index, 1)
+      ranked.push(node)
+    }
+    return ranked
+  }
+
+  static all(): (StorageOperatorStats & { healthScore: number })[] {
+    return [...this.operators.values()].map((stats) => ({ ...stats, healthScore: this.score(stats) }))
+  }
+}
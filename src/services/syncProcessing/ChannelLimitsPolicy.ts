@@ -0,0 +1,80 @@
+import _ from 'lodash'
+import { YoutubeSyncNodeConfiguration } from '../../types/generated/ConfigJson'
+import { YtChannel } from '../../types/youtube'
+import { parseByteSize } from '../../utils/configParser'
+
+export type ChannelLimitsPolicyConfig = NonNullable<
+  NonNullable<YoutubeSyncNodeConfiguration['sync']['limits']>['channelLimits']
+>
+
+export type ChannelLimits = {
+  // max. no. of the synced historical videos
+  videoCap: number
+
+  // max. total size (in bytes) of the synced historical videos
+  sizeCap: number
+}
+
+type ChannelLimitsRule = ChannelLimits & {
+  tiers?: string[]
+  minSubscribers?: number
+  maxSubscribers?: number
+}
+
+// Limits applied if the policy isn't configured (based on the subscribers count)
+const DEFAULT_CHANNEL_LIMITS_RULES: ChannelLimitsRule[] = [
+  { maxSubscribers: 5000, videoCap: 100, sizeCap: 10_000_000_000 }, // 10 GB
+  { maxSubscribers: 50000, videoCap: 250, sizeCap: 100_000_000_000 }, // 100 GB
+]
+const DEFAULT_CHANNEL_LIMITS: ChannelLimits = { videoCap: 1000, sizeCap: 1_000_000_000_000 } // 1 TB
+
+/**
+ * Resolves the sync limits of the channels (no. & total size of the synced historical videos). Limits of the first
+ * configured rule matching the channel's YPP status & subscribers count are applied, otherwise the default limits.
+ * Limits overridden by the operator for a particular channel take precedence over the policy.
+ */
+export class ChannelLimitsPolicy {
+  private rules: ChannelLimitsRule[]
+  private defaultLimits: ChannelLimits
+
+  constructor(config?: ChannelLimitsPolicyConfig) {
+    if (config) {
+      this.rules = (config.rules || []).map((rule) => ({ ...rule, sizeCap: parseByteSize(rule.sizeCap) }))
+      this.defaultLimits = { ...config.default, sizeCap: parseByteSize(config.default.sizeCap) }
+    } else {
+      this.rules = DEFAULT_CHANNEL_LIMITS_RULES
+      this.defaultLimits = DEFAULT_CHANNEL_LIMITS
+    }
+  }
+
+  private matches(rule: ChannelLimitsRule, channel: YtChannel): boolean {
+    const { subscriberCount } = channel.statistics
+    return (
+      (!rule.tiers || rule.tiers.includes(channel.yppStatus)) &&
+      (rule.minSubscribers === undefined || subscriberCount >= rule.minSubscribers) &&
+      (rule.maxSubscribers === undefined || subscriberCount < rule.maxSubscribers)
+    )
+  }
+
+  limits(channel: YtChannel): ChannelLimits {
+    const rule = this.rules.find((r) => this.matches(r, channel))
+    const { videoCap, sizeCap } = rule || this.defaultLimits
+    return { videoCap, sizeCap, ..._.omitBy(channel.limitsOverride, _.isNil) }
+  }
+
+  videoCap(channel: YtChannel): number {
+    return this.limits(channel).videoCap
+  }
+
+  sizeCap(channel: YtChannel): number {
+    return this.limits(channel).sizeCap
+  }
+
+  totalVideos(channel: YtChannel): number {
+    return Math.min(channel.statistics.videoCount, this.videoCap(channel))
+  }
+
+  hasSizeLimitReached(channel: YtChannel): boolean {
+    return channel.historicalVideoSyncedSize >= this.sizeCap(channel)
+  }
+}
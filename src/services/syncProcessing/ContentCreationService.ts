@@ -1,15 +1,31 @@
 import { SubmittableExtrinsic } from '@polkadot/api/types'
 import type { ISubmittableResult } from '@polkadot/types/types'
 import BN from 'bn.js'
-import { Job } from 'bullmq'
+import { Job, UnrecoverableError } from 'bullmq'
 import _ from 'lodash'
 import { Logger } from 'winston'
 import { IDynamodbService } from '../../repository'
-import { CreateVideoJobData, MetadataJobOutput, YtChannel } from '../../types/youtube'
+import { CreateVideoJobData, MetadataJobOutput, VideoSubtitle, YtChannel, YtVideo } from '../../types/youtube'
 import { LoggingService } from '../logging'
+import { MembershipFieldsFragment as Membership, VideoFieldsFragment } from '../query-node/generated/queries'
+import { CreateVideoExtrinsicDefaults } from '../runtime/api'
 import { JoystreamClient } from '../runtime/client'
+import { BatchProcessorResult } from './PriorityQueue'
 import { SyncUtils } from './utils'
 
+type DuplicateVideoCreation = {
+  job: Job<CreateVideoJobData>
+  qnVideo: VideoFieldsFragment
+  videoMetadata: MetadataJobOutput
+}
+
+type PlannedVideoCreation = {
+  job: Job<CreateVideoJobData>
+  videoMetadata: MetadataJobOutput
+  extrinsicDefaults: CreateVideoExtrinsicDefaults
+  collaborator: Membership
+}
+
 // Video content creation/processing service
 export class ContentCreationService {
   readonly logger: Logger
@@ -18,7 +34,8 @@ export class ContentCreationService {
   constructor(
     logging: LoggingService,
     private dynamodbService: IDynamodbService,
-    private joystreamClient: JoystreamClient
+    private joystreamClient: JoystreamClient,
+    private batchSize: number
   ) {
     this.logger = logging.createLogger('ContentCreationService')
     this.dynamodbService = dynamodbService
@@ -30,23 +47,27 @@ export class ContentCreationService {
     await this.ensureContentStateConsistency()
   }
 
-  async process(jobs: Job<CreateVideoJobData>[]): Promise<Job<CreateVideoJobData>[]> {
-    const txByJob: Map<Job<CreateVideoJobData>, SubmittableExtrinsic<'promise', ISubmittableResult>> = new Map()
+  /**
+   * Creates the videos on chain. Videos of each channel are assigned to one of the collaborator members (the main
+   * one or the pool members) set as the channel's collaborators, and each collaborator submits its own batch (of at
+   * most `batchSize` videos), so that the batches of the different collaborators are submitted in parallel.
+   */
+  async process(jobs: Job<CreateVideoJobData>[]): Promise<BatchProcessorResult<CreateVideoJobData>> {
+    // jobs planned to be executed in this batch, in the order of the txs in the batched calls
+    const plannedJobs: PlannedVideoCreation[] = []
 
     // updated channel data (historicalVideoSyncedSize)
-    const updatedChannels: YtChannel[] = []
+    const channelsById: Map<number, YtChannel> = new Map()
 
-    // Helper function to return the planned/completed jobs
-    const jobsToComplete = () => {
-      const jobs = [...txByJob.keys()]
-      const data = jobs.map((j) => j.data)
-      return { jobs, data }
-    }
+    // jobs that failed before being planned (the jobs that are neither planned nor failed are deferred to the
+    // next batch, e.g. when the collaborator's batch is full, and their deferral doesn't count as a failure)
+    const failedJobs: BatchProcessorResult<CreateVideoJobData>['failed'] = []
+    let duplicates: BatchProcessorResult<CreateVideoJobData> = { completed: [], failed: [] }
 
     try {
-      const [app, collaborator] = await Promise.all([
+      const [app, collaborators] = await Promise.all([
         this.joystreamClient.getApp(),
-        this.joystreamClient.getCollaboratorMember(),
+        this.joystreamClient.getAvailableCollaboratorMembers(),
       ])
 
       const jobsByJoystreamChannelId = _(jobs)
@@ -54,6 +75,15 @@ export class ContentCreationService {
         .map((jobs, joystreamChannelId) => ({ joystreamChannelId, jobs: [...jobs] }))
         .value()
 
+      // app action nonce of the next video to be created in the channel
+      const appActionNonces: Map<number, number> = new Map()
+
+      // no. of jobs planned to be executed by each collaborator member
+      const plannedJobsCount: Map<string, number> = new Map()
+
+      // jobs of the videos that have already been created on chain by the app
+      const duplicateJobs: DuplicateVideoCreation[] = []
+
       await Promise.all(
         jobsByJoystreamChannelId.map(async ({ joystreamChannelId, jobs }) => {
           const channelId = Number(joystreamChannelId)
@@ -62,98 +92,333 @@ export class ContentCreationService {
             return []
           }
 
-          const [channel, appActionNonce, extrinsicDefaults] = await Promise.all([
+          const [channel, appActionNonce, extrinsicDefaults, channelCollaboratorIds] = await Promise.all([
             this.dynamodbService.channels.getByJoystreamId(channelId),
             this.joystreamClient.totalVideosCreatedByChannel(channelId),
             this.joystreamClient.createVideoExtrinsicDefaults(channelId),
+            this.joystreamClient.channelCollaboratorIds(channelId),
           ])
 
-          // Important: Don't use Promise.all(jobs.map(...)) here, as we need to sequentially construct the
-          // TXs from jobs and place them in the batched tx call in the same order as the jobs. This is to
-          // correctly construct app action nonce (using job's index in the "jobs" array) for each video.
-          for (const [i, job] of jobs.entries()) {
+          // All videos of the channel are created by the same (least loaded) collaborator, so
+          // that their app action nonces are consecutive. Remaining videos wait for the next batch.
+          const collaborator = _.minBy(
+            collaborators.filter(
+              (c) => channelCollaboratorIds.includes(c.id) && (plannedJobsCount.get(c.id) || 0) < this.batchSize
+            ),
+            (c) => plannedJobsCount.get(c.id) || 0
+          )
+          if (!collaborator) {
+            return []
+          }
+          const collaboratorJobs = jobs.slice(0, this.batchSize - (plannedJobsCount.get(collaborator.id) || 0))
+          plannedJobsCount.set(collaborator.id, (plannedJobsCount.get(collaborator.id) || 0) + collaboratorJobs.length)
+
+          for (const job of collaboratorJobs) {
             // get computed metadata object
             const videoMetadata = Object.values(await job.getChildrenValues<MetadataJobOutput>())[0]
             if (!videoMetadata) {
-              throw new Error(`Failed to get video metadata from 'completed' child job: ${job.id}`)
+              failedJobs.push({
+                job,
+                err: new Error(`Failed to get video metadata from 'completed' child job: ${job.id}`),
+              })
+              continue
             }
 
-            // TODO: Remove this. temporary fix to ensure no duplicate videos created
-            const qnVideo = await this.joystreamClient.getVideoByYtResourceId(job.data.id)
+            // subtitles tracks are created along with the video
+            const subtitles = videoMetadata.subtitles?.map(({ language, type }) => ({ language, type }))
+            await job.updateData({ ...job.data, subtitles })
+
+            // ensure no duplicate videos are created (unless the duplicate creation is allowed by the operator)
+            const qnVideo = job.data.allowDuplicate
+              ? undefined
+              : await this.joystreamClient.getVideoByYtResourceId(job.data.id)
             if (qnVideo) {
-              this.logger.error(
-                `Inconsistent state. Youtube video ${job.data.id} was already created on Joystream but the service tried to recreate it.`,
-                { videoId: job.data.id, channelId: job.data.joystreamChannelId }
-              )
-              await this.dynamodbService.videos.updateState(job.data, 'CreatingVideo')
-              process.exit(1)
+              duplicateJobs.push({ job, qnVideo, videoMetadata })
+              continue
             }
 
-            // create submittable tx
-            const tx = await this.joystreamClient.createVideoTx(
-              app.id,
-              appActionNonce + i,
-              collaborator,
-              extrinsicDefaults,
-              { ...job.data, videoMetadata }
-            )
-
-            // set submittable tx for each job
-            txByJob.set(job, tx)
-
-            // update historicalVideoSyncedSize by adding the size of historical videos
-            const isHistoricalVideo = new Date(job.data.publishedAt) < channel.createdAt
-            if (isHistoricalVideo) {
-              const size = SyncUtils.getSizeFromVideoMetadata(videoMetadata)
-              channel.historicalVideoSyncedSize += size
-            }
+            plannedJobs.push({ job, videoMetadata, extrinsicDefaults, collaborator })
           }
 
-          updatedChannels.push(channel)
+          appActionNonces.set(channelId, appActionNonce)
+          channelsById.set(channelId, channel)
         })
       )
 
+      duplicates = await this.handleDuplicateVideos(duplicateJobs, channelsById)
+
       // No jobs planned to be executed in this batch
-      if (jobsToComplete().jobs.length === 0) {
-        return []
+      if (plannedJobs.length === 0) {
+        // size of the linked duplicate videos is added to the channels' historicalVideoSyncedSize
+        if (duplicates.completed.length) {
+          await this.dynamodbService.channels.batchSave([...channelsById.values()])
+        }
+        return { completed: duplicates.completed, failed: [...failedJobs, ...duplicates.failed] }
       }
 
       // pre-commit videos state to 'CreatingVideo' to lock the videos
-      await this.dynamodbService.videos.batchUpdateState(jobsToComplete().data, 'CreatingVideo')
+      await this.dynamodbService.videos.batchUpdateState(
+        plannedJobs.map(({ job }) => job.data),
+        'CreatingVideo'
+      )
 
-      // send batch extrinsic
-      const { blockNumber, result } = await this.joystreamClient.sendBatchExtrinsic(collaborator.controllerAccount, [
-        ...txByJob.values(),
-      ])
+      // submit the batches of the collaborators in parallel
+      const results = await Promise.all(
+        _(plannedJobs)
+          .groupBy(({ collaborator }) => collaborator.id)
+          .map((collaboratorJobs) => this.createVideos(app.id, collaboratorJobs, appActionNonces, channelsById))
+          .value()
+      )
 
-      // update last video creation block number
-      updatedChannels.map((c) => this.lastVideoCreationBlockByChannelId.set(c.joystreamChannelId, blockNumber))
+      // post creation channels state updates
+      await this.dynamodbService.channels.batchSave([...channelsById.values()])
 
-      // update jobs data
-      await Promise.all(jobsToComplete().jobs.map((j, i) => j.updateData({ ...j.data, ...result[i] })))
+      return {
+        completed: [...duplicates.completed, ...results.flatMap(({ completed }) => completed)],
+        failed: [...failedJobs, ...duplicates.failed, ...results.flatMap(({ failed }) => failed)],
+      }
+    } catch (e) {
+      const err = new Error(
+        `Got error creating ${plannedJobs.length} videos: \n ${JSON.stringify({
+          videoIds: plannedJobs.map(({ job }) => job.data.id),
+          err: (e as Error).message,
+        })}`
+      )
+      this.logger.error(err.message)
 
-      // post creation videos and channels state updates
-      await this.dynamodbService.videos.batchUpdateState(jobsToComplete().data, 'VideoCreated')
-      await this.dynamodbService.channels.batchSave(updatedChannels)
+      await this.dynamodbService.videos.batchUpdateState(
+        plannedJobs.map(({ job }) => job.data),
+        'VideoCreationFailed'
+      )
 
-      this.logger.info(`Successfully created ${txByJob.size} videos on chain using TX batch.`, {
-        videoIds: jobsToComplete().data.map((j) => j.id),
-      })
+      // Only the planned jobs have failed (no planned job was completed), the remaining jobs are deferred
+      return {
+        completed: duplicates.completed,
+        failed: [...failedJobs, ...duplicates.failed, ...plannedJobs.map(({ job }) => ({ job, err }))],
+      }
+    }
+  }
+
+  /**
+   * Creates the videos using batched calls signed by the (same) collaborator's controller account. If a video
+   * creation call fails, the batch is interrupted, so only the failed video is marked as failed, while the videos
+   * following it are resubmitted in the next batched call (with recomputed nonces).
+   */
+  private async createVideos(
+    appId: string,
+    plannedJobs: PlannedVideoCreation[],
+    appActionNonces: Map<number, number>,
+    channelsById: Map<number, YtChannel>
+  ): Promise<BatchProcessorResult<CreateVideoJobData>> {
+    const completed: Job<CreateVideoJobData>[] = []
+    const failed: BatchProcessorResult<CreateVideoJobData>['failed'] = []
+    const { collaborator } = plannedJobs[0]
+
+    let pendingJobs = plannedJobs
+    try {
+      while (pendingJobs.length) {
+        // Important: the TXs need to be sequentially constructed in the same order as the pending jobs, as the
+        // app action nonce of each video is computed using job's index among the channel's pending jobs.
+        const txs: SubmittableExtrinsic<'promise', ISubmittableResult>[] = []
+        const nonceOffsets: Map<number, number> = new Map()
+        for (const { job, videoMetadata, extrinsicDefaults } of pendingJobs) {
+          const channelId = job.data.joystreamChannelId
+          const nonceOffset = nonceOffsets.get(channelId) || 0
+          nonceOffsets.set(channelId, nonceOffset + 1)
+
+          // create submittable tx
+          const tx = await this.joystreamClient.createVideoTx(
+            appId,
+            (appActionNonces.get(channelId) || 0) + nonceOffset,
+            collaborator,
+            extrinsicDefaults,
+            { ...job.data, videoMetadata }
+          )
+          txs.push(tx)
+        }
+
+        // send batch extrinsic
+        const { blockNumber, result, failure } = await this.joystreamClient.sendBatchExtrinsic(
+          collaborator.controllerAccount,
+          txs
+        )
+
+        // videos created by the calls preceding the failed one (if any)
+        const created = pendingJobs.slice(0, result.length)
+        for (const { job, videoMetadata } of created) {
+          const channelId = job.data.joystreamChannelId
+          const channel = channelsById.get(channelId)
+          appActionNonces.set(channelId, (appActionNonces.get(channelId) || 0) + 1)
+
+          // update last video creation block number
+          this.lastVideoCreationBlockByChannelId.set(channelId, blockNumber)
+
+          // update historicalVideoSyncedSize by adding the size of historical videos
+          if (channel && new Date(job.data.publishedAt) < channel.createdAt) {
+            channel.historicalVideoSyncedSize += SyncUtils.getSizeFromVideoMetadata(videoMetadata)
+          }
+        }
+
+        // update jobs data
+        await Promise.all(created.map(({ job }, i) => job.updateData({ ...job.data, ...result[i] })))
+
+        // post creation videos state updates
+        await this.dynamodbService.videos.batchUpdateState(
+          created.map(({ job }) => job.data),
+          'VideoCreated'
+        )
+        completed.push(...created.map(({ job }) => job))
+
+        if (created.length) {
+          this.logger.info(`Successfully created ${created.length} videos on chain using TX batch.`, {
+            videoIds: created.map(({ job }) => job.data.id),
+            collaboratorId: collaborator.id,
+          })
+        }
+
+        if (failure) {
+          const { job } = pendingJobs[failure.index]
+          const err = new Error(`Failed to create video on chain: ${failure.error}`)
+          await this.dynamodbService.videos.updateState(job.data, 'VideoCreationFailed')
+          failed.push({ job, err })
+          this.logger.error(err.message, { videoId: job.data.id, channelId: job.data.joystreamChannelId })
+        }
 
-      // return completed jobs
-      return jobsToComplete().jobs
-    } catch (err) {
-      err = new Error(
-        `Got error creating ${txByJob.size} videos: \n ${JSON.stringify({
-          videoIds: jobsToComplete().data.map((j) => j.id),
-          err: (err as Error).message,
+        pendingJobs = failure ? pendingJobs.slice(failure.index + 1) : []
+      }
+    } catch (e) {
+      const err = new Error(
+        `Got error creating ${pendingJobs.length} videos: \n ${JSON.stringify({
+          videoIds: pendingJobs.map(({ job }) => job.data.id),
+          collaboratorId: collaborator.id,
+          err: (e as Error).message,
         })}`
       )
+      this.logger.error(err.message)
 
-      await this.dynamodbService.videos.batchUpdateState(jobsToComplete().data, 'VideoCreationFailed')
+      await this.dynamodbService.videos.batchUpdateState(
+        pendingJobs.map(({ job }) => job.data),
+        'VideoCreationFailed'
+      )
+      failed.push(...pendingJobs.map(({ job }) => ({ job, err })))
+    }
+
+    return { completed, failed }
+  }
 
-      // No Job was completed
-      throw err
+  /**
+   * Handles the videos that the service tried to create, but which have already been created on chain by the app
+   * (e.g. the video state wasn't updated after the creation). If the existing video belongs to the same channel,
+   * it's linked to the Youtube video (whose job is completed as if the video was created by this batch). Otherwise
+   * the video is quarantined in `Duplicate` state (not retried) until the operator resolves it.
+   */
+  private async handleDuplicateVideos(
+    duplicateJobs: DuplicateVideoCreation[],
+    channelsById: Map<number, YtChannel>
+  ): Promise<BatchProcessorResult<CreateVideoJobData>> {
+    const completed: Job<CreateVideoJobData>[] = []
+    const failed: BatchProcessorResult<CreateVideoJobData>['failed'] = []
+
+    for (const { job, qnVideo, videoMetadata } of duplicateJobs) {
+      const details = {
+        videoId: job.data.id,
+        channelId: job.data.joystreamChannelId,
+        joystreamVideoId: qnVideo.id,
+        joystreamVideoChannelId: qnVideo.channel.id,
+      }
+
+      if (qnVideo.channel.id === job.data.joystreamChannelId.toString()) {
+        const createdVideo = this.linkJoystreamVideo(job.data, qnVideo)
+        await job.updateData({ ...job.data, ...createdVideo })
+        await this.dynamodbService.videos.updateState(createdVideo, 'VideoCreated')
+        completed.push(job)
+
+        // linked video counts towards the channel's historical videos size, same as the created one
+        const channel = channelsById.get(job.data.joystreamChannelId)
+        if (channel && new Date(job.data.publishedAt) < channel.createdAt) {
+          channel.historicalVideoSyncedSize += SyncUtils.getSizeFromVideoMetadata(videoMetadata)
+        }
+        this.logger.warn(`Youtube video was already created on Joystream, linked the existing video.`, details)
+      } else {
+        const err = new UnrecoverableError(
+          `Youtube video was already created on Joystream by the app in another channel (${qnVideo.channel.id}).`
+        )
+        await this.dynamodbService.videos.updateState(job.data, 'Duplicate')
+        failed.push({ job, err })
+        this.logger.error(`Duplicate video detected. Quarantined the video until it's resolved by the operator.`, {
+          ...details,
+          alert: 'DuplicateVideo',
+        })
+      }
+    }
+
+    return { completed, failed }
+  }
+
+  /**
+   * Resolves the video quarantined in `Duplicate` state by linking it to the Joystream video already created by the
+   * app (in another channel). Only the video whose assets have already been uploaded can be linked, as the assets
+   * belong to the other channel's bag. Size of the linked video counts towards the channel's historical videos size.
+   * Video linked to another channel's Joystream video is marked as such, so that it's not updated, hidden or deleted.
+   * @returns linked video
+   */
+  async linkDuplicateVideo(video: YtVideo): Promise<YtVideo> {
+    const qnVideo = await this.joystreamClient.getVideoByYtResourceId(video.id)
+    if (!qnVideo) {
+      throw new Error(
+        `Joystream video of the Youtube video ${video.id} doesn't exist anymore, it can be force-created.`
+      )
+    }
+
+    const assets = [qnVideo.media, qnVideo.thumbnailPhoto, ...qnVideo.subtitles.map((s) => s.asset)]
+    if (!assets.every((asset) => asset?.isAccepted)) {
+      throw new Error(`Assets of the Joystream video ${qnVideo.id} are not uploaded yet, it can't be linked.`)
+    }
+
+    const channel = await this.dynamodbService.channels.getById(video.channelId)
+    if (new Date(video.publishedAt) < channel.createdAt) {
+      const size = _.sumBy(assets, (asset) => Number(asset?.size || 0))
+      await this.dynamodbService.channels.save({
+        id: channel.id,
+        userId: channel.userId,
+        historicalVideoSyncedSize: channel.historicalVideoSyncedSize + size,
+      })
+    }
+
+    const { joystreamVideo, subtitles } = this.linkJoystreamVideo(video, qnVideo)
+    this.logger.info(`Linked duplicate video to the existing Joystream video.`, {
+      videoId: video.id,
+      joystreamVideoId: qnVideo.id,
+      joystreamVideoChannelId: qnVideo.channel.id,
+    })
+    return this.dynamodbService.videos.save({
+      id: video.id,
+      channelId: video.channelId,
+      joystreamVideo,
+      subtitles,
+      linkedJoystreamChannelId:
+        qnVideo.channel.id !== String(video.joystreamChannelId) ? qnVideo.channel.id : undefined,
+      state: 'UploadSucceeded',
+    })
+  }
+
+  // Links the Joystream video (& its assets) created by the app to the Youtube video
+  private linkJoystreamVideo(video: YtVideo, qnVideo: VideoFieldsFragment): YtVideo {
+    const { id, media, thumbnailPhoto } = qnVideo
+    const subtitles = _.sortBy(
+      qnVideo.subtitles.filter((s) => s.asset && s.language),
+      (s) => Number(s.asset?.id)
+    )
+    return {
+      ...video,
+      joystreamVideo: {
+        id,
+        assetIds: [media?.id || '', thumbnailPhoto?.id || '', ...subtitles.map((s) => s.asset?.id || '')],
+      },
+      subtitles: subtitles.map((s) => ({
+        language: s.language?.iso || '',
+        type: s.type as VideoSubtitle['type'],
+      })),
     }
   }
 
@@ -171,9 +436,7 @@ export class ContentCreationService {
       if (qnVideo) {
         // If QN return a video with given YT video ID attribution, then it means that
         // video was already created so video state should be updated accordingly.
-        const { id, media, thumbnailPhoto } = qnVideo
-        const createdVideo = { ...v, joystreamVideo: { id, assetIds: [media?.id || '', thumbnailPhoto?.id || ''] } }
-        await this.dynamodbService.videos.updateState(createdVideo, 'VideoCreated')
+        await this.dynamodbService.videos.updateState(this.linkJoystreamVideo(v, qnVideo), 'VideoCreated')
       } else {
         await this.dynamodbService.videos.updateState(v, 'New')
       }
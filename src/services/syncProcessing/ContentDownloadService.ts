@@ -1,13 +1,24 @@
-import { Job } from 'bullmq'
+import { Job, UnrecoverableError } from 'bullmq'
 import fs from 'fs'
 import fsPromises from 'fs/promises'
 import path from 'path'
 import { Logger } from 'winston'
 import { IDynamodbService } from '../../repository'
 import { ReadonlyConfig } from '../../types'
-import { DownloadJobData, DownloadJobOutput, YtChannel } from '../../types/youtube'
+import {
+  DownloadJobData,
+  DownloadJobOutput,
+  DownloadedSubtitle,
+  DownloadedVideoFormat,
+  YtChannel,
+  verifiedVariants,
+} from '../../types/youtube'
+import { parseByteSize } from '../../utils/configParser'
 import { LoggingService } from '../logging'
-import { IYoutubeApi } from '../youtube/api'
+import { DownloadFormatPolicy, IYoutubeApi } from '../youtube/api'
+import { ChannelLimitsPolicy } from './ChannelLimitsPolicy'
+import { ContentThumbnailService } from './ContentThumbnailService'
+import { DiskSpaceManager } from './DiskSpaceManager'
 import { SyncUtils } from './utils'
 
 // Youtube videos download service
@@ -18,7 +29,10 @@ export class ContentDownloadService {
     private syncConfig: Required<ReadonlyConfig['sync']>,
     logging: LoggingService,
     private dynamodbService: IDynamodbService,
-    private youtubeApi: IYoutubeApi
+    private youtubeApi: IYoutubeApi,
+    private diskSpaceManager: DiskSpaceManager,
+    private thumbnailService: ContentThumbnailService,
+    private channelLimitsPolicy: ChannelLimitsPolicy
   ) {
     this.syncConfig = syncConfig
     this.logger = logging.createLogger('ContentDownloadService')
@@ -28,76 +42,109 @@ export class ContentDownloadService {
 
   async start() {
     this.logger.info(`Starting Video download service.`)
-
-    // Resolve already downloaded videos
-    this.resolveDownloadedVideos()
   }
 
-  private expectedVideoFilePath(videoId: string): string {
-    const filePath = SyncUtils.downloadedVideoFilePaths.get(videoId)
-    if (filePath && fs.existsSync(filePath)) {
-      return filePath
+  /**
+   * Downloads the subtitles tracks of the video next to the already downloaded video file. Since
+   * subtitles are not essential, failing to download them doesn't fail the video download.
+   */
+  private async downloadSubtitles(video: DownloadJobData): Promise<DownloadedSubtitle[]> {
+    if (!this.syncConfig.subtitles?.enable) {
+      return []
     }
-    throw new Error(`Failed to get video file path: ${videoId}. File not found.`)
-  }
 
-  private async removeVideoFile(videoId: string) {
     try {
-      const dir = this.syncConfig.downloadsDir
-      const files = await fsPromises.readdir(dir)
-      for (const file of files) {
-        if (file.startsWith(videoId)) {
-          const filePath = path.join(dir, file)
-          const size = fs.statSync(filePath).size
-          SyncUtils.updateUsedStorageSize(-size)
-
-          await fsPromises.unlink(filePath)
-        }
-      }
-      SyncUtils.downloadedVideoFilePaths.delete(videoId)
+      const subtitles = await this.youtubeApi.downloadSubtitles(video.url, this.syncConfig.downloadsDir)
+      return await Promise.all(
+        subtitles.map(async (subtitle) => {
+          const filePath = SyncUtils.subtitleFilePath(video.id, subtitle.language)
+          await fsPromises.rename(subtitle.filePath, filePath)
+          return { ...subtitle, filePath }
+        })
+      )
     } catch (err) {
-      this.logger.error(`Failed to delete media file for video. File not found.`, { videoId: videoId, err })
+      this.logger.warn(`Failed to download subtitles of the video. Syncing it without subtitles...`, {
+        videoId: video.id,
+        err,
+      })
+      return []
     }
   }
 
-  private fileSize(videoId: string): number {
-    const videoFilePath = this.expectedVideoFilePath(videoId)
-    return fs.statSync(videoFilePath).size
+  /**
+   * @returns download format policy of the channel's YPP tier (or of the nearest lower tier that has a policy)
+   */
+  private formatPolicy(channel: YtChannel): DownloadFormatPolicy {
+    const { default: defaultPolicy, tiers = {} } = this.syncConfig.downloadFormat
+    const orderedTiers = ['Unverified', ...verifiedVariants] as const
+    for (let i = orderedTiers.indexOf(channel.yppStatus as typeof orderedTiers[number]); i >= 0; i--) {
+      const tierPolicy = tiers[orderedTiers[i]]
+      if (tierPolicy) {
+        return tierPolicy
+      }
+    }
+    return defaultPolicy
   }
 
-  private resolveDownloadedVideos() {
-    const videoDownloadsDir = this.syncConfig.downloadsDir
-    const resolvedDownloads = fs
-      .readdirSync(videoDownloadsDir)
-      .map((filePath) => filePath.split('.'))
-      .filter((filePath) => filePath.length === 2)
-      .map(([videoId, ext]) => {
-        const filePath = path.join(this.syncConfig.downloadsDir, `${videoId}.${ext}`)
-        SyncUtils.setVideoFilePath(videoId, filePath)
-        SyncUtils.updateUsedStorageSize(this.fileSize(videoId))
-        return videoId
-      })
-    this.logger.verbose(`Resolved already downloaded video assets in local storage`, {
-      resolvedDownloads,
-      usedSpace: SyncUtils.usedSpace,
-    })
+  /**
+   * @returns expected size of the downloaded video, as estimated by yt-dlp for the chosen format, otherwise
+   * the size of the original file uploaded to Youtube (which is usually greater than the downloaded one)
+   */
+  private async expectedDownloadSize(video: DownloadJobData, formatPolicy: DownloadFormatPolicy): Promise<number> {
+    try {
+      const estimatedSize = await this.youtubeApi.estimateDownloadSize(video.url, formatPolicy)
+      if (estimatedSize) {
+        return estimatedSize
+      }
+    } catch (err) {
+      this.logger.debug(`Failed to estimate download size of the video.`, { videoId: video.id, err })
+    }
+    return video.fileSize || 0
   }
 
   /// Process download tasks based on their priority.
   async process(job: Job<DownloadJobData>): Promise<DownloadJobOutput> {
     const video = job.data
     try {
+      const channel = await this.dynamodbService.channels.getById(video.channelId)
+      const formatPolicy = this.formatPolicy(channel)
+
+      // reserve the disk space for the video before starting the download
+      await this.diskSpaceManager.reserve(video.id, await this.expectedDownloadSize(video, formatPolicy))
+
       // download the video from youtube
-      const { ext: fileExt } = await this.youtubeApi.downloadVideo(video.url, this.syncConfig.downloadsDir)
-      const filePath = path.join(this.syncConfig.downloadsDir, `${video.id}.${fileExt}`)
+      const response = await this.youtubeApi.downloadVideo(video.url, this.syncConfig.downloadsDir, formatPolicy)
+      const filePath = path.join(this.syncConfig.downloadsDir, `${video.id}.${response.ext}`)
+      // yt-dlp skips (without failing) the download of the format whose size exceeds the max file size
+      if (formatPolicy.maxFileSize && !fs.existsSync(filePath)) {
+        throw new Error(`video file wasn't downloaded, its size exceeds the max file size.`)
+      }
       SyncUtils.setVideoFilePath(video.id, filePath)
-      const size = this.fileSize(video.id)
-      SyncUtils.updateUsedStorageSize(size)
-      // TODO: fix this as size can be duplicated added if video is already downloaded
-      // TODO: once during resolveDownloadedVideos calls and once during re-downloading
+      const size = SyncUtils.fileSize(video.id)
+
+      // record the chosen format of the video
+      const downloadedFormat: DownloadedVideoFormat = {
+        formatId: response.format_id,
+        resolution: response.resolution,
+        videoCodec: response.vcodec,
+        audioCodec: response.acodec,
+        container: response.ext,
+      }
+      await this.dynamodbService.repo.videos.save({ id: video.id, channelId: video.channelId, downloadedFormat })
+
+      // yt-dlp limits the size of each downloaded format separately, so ensure the size of the merged file
+      if (formatPolicy.maxFileSize && size > parseByteSize(formatPolicy.maxFileSize)) {
+        throw new Error(`size of the downloaded video file (${size} bytes) exceeds the max file size.`)
+      }
+
+      // download the video subtitles (if enabled)
+      const subtitles = await this.downloadSubtitles(video)
+
+      // download (or grab from the video file) the thumbnail, which is then both hashed & uploaded
+      const thumbnailFilePath = await this.thumbnailService.prepare(video, filePath)
 
       if (video.joystreamVideo) {
-        return { filePath }
+        return { filePath, thumbnailFilePath, subtitles }
       }
 
       /**
@@ -105,16 +152,15 @@ export class ContentDownloadService {
        * violate per channel total videos count & size limits)
        */
 
-      const channel = await this.dynamodbService.channels.getById(video.channelId)
       const isHistoricalVideo = new Date(video.publishedAt) < channel.createdAt
       if (isHistoricalVideo) {
-        const sizeLimitReached = channel.historicalVideoSyncedSize + size > YtChannel.sizeCap(channel)
+        const sizeLimitReached = channel.historicalVideoSyncedSize + size > this.channelLimitsPolicy.sizeCap(channel)
         if (sizeLimitReached) {
           throw new Error(`size cap for historical videos of channel ${channel.id} has reached.`)
         }
       }
 
-      return { filePath }
+      return { filePath, thumbnailFilePath, subtitles }
     } catch (err) {
       const errorMsg = (err as Error).message
       const errors = [
@@ -125,6 +171,7 @@ export class ContentDownloadService {
         { message: 'This video is private' },
         { message: 'removed by the uploader' },
         { message: 'size cap for historical videos' },
+        { message: 'exceeds the max file size' },
       ]
 
       let matchedError = errors.find((e) => errorMsg.includes(e.message))
@@ -133,8 +180,14 @@ export class ContentDownloadService {
         this.logger.error(`${errorMsg}. Skipping from syncing...`, { videoId: video.id })
       }
 
-      await this.removeVideoFile(video.id)
-      throw err
+      await this.diskSpaceManager
+        .removeVideoFiles(video.id)
+        .catch((err) => this.logger.error(`Failed to delete media files of the video.`, { videoId: video.id, err }))
+
+      // Don't retry the download of the unavailable video
+      throw matchedError ? new UnrecoverableError(errorMsg) : err
+    } finally {
+      await this.diskSpaceManager.release(video.id)
     }
   }
 }
@@ -1,16 +1,22 @@
 import { Job } from 'bullmq'
 import fs from 'fs'
 import { Logger } from 'winston'
-import { DownloadJobOutput, MetadataJobData, MetadataJobOutput } from '../../types/youtube'
+import { DownloadJobOutput, MetadataJobData, MetadataJobOutput, VideoSubtitle } from '../../types/youtube'
 import { FileHash, computeFileHashAndSize } from '../../utils/hasher'
 import { LoggingService } from '../logging'
-import { getThumbnailAsset, getVideoFileMetadata } from '../runtime/client'
+import { getVideoFileMetadata } from '../runtime/client'
 import { VideoFileMetadata } from '../runtime/types'
+import { ContentThumbnailService } from './ContentThumbnailService'
+
+export type SubtitleHash = VideoSubtitle & {
+  hash: FileHash
+}
 
 export type VideoMetadataAndHash = {
   thumbnailHash: FileHash
   mediaHash: FileHash
   mediaMetadata: VideoFileMetadata
+  subtitles?: SubtitleHash[]
 }
 
 /**
@@ -19,7 +25,7 @@ export type VideoMetadataAndHash = {
 export class ContentMetadataService {
   readonly logger: Logger
 
-  public constructor(logging: LoggingService) {
+  public constructor(logging: LoggingService, private thumbnailService: ContentThumbnailService) {
     this.logger = logging.createLogger('ContentHashingService')
   }
 
@@ -36,15 +42,25 @@ export class ContentMetadataService {
       throw new Error(`Failed to get video file path from 'completed' child job: ${video.id}. File not found.`)
     }
 
+    // thumbnail is (re)prepared if it's missing (e.g. removed since the download job has completed)
+    const thumbnailFilePath = await this.thumbnailService.prepareReserved(video, downloadJobOutput.filePath)
+
     const videoHashStream = fs.createReadStream(downloadJobOutput.filePath)
-    const thumbnailPhotoStream = await getThumbnailAsset(video.thumbnails)
+    const thumbnailPhotoStream = fs.createReadStream(thumbnailFilePath)
 
-    const [thumbnailHash, mediaHash, mediaMetadata] = await Promise.all([
+    const [thumbnailHash, mediaHash, mediaMetadata, subtitles] = await Promise.all([
       computeFileHashAndSize(thumbnailPhotoStream),
       computeFileHashAndSize(videoHashStream),
       getVideoFileMetadata(downloadJobOutput.filePath),
+      Promise.all(
+        (downloadJobOutput.subtitles || []).map(async ({ language, type, filePath }) => ({
+          language,
+          type,
+          hash: await computeFileHashAndSize(fs.createReadStream(filePath)),
+        }))
+      ),
     ])
 
-    return { thumbnailHash, mediaHash, mediaMetadata }
+    return { thumbnailHash, mediaHash, mediaMetadata, subtitles }
   }
 }
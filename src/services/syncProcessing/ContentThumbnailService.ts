@@ -0,0 +1,130 @@
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg'
+import ffmpeg from 'fluent-ffmpeg'
+import fs from 'fs'
+import fsPromises from 'fs/promises'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import { Logger } from 'winston'
+import { YtVideo } from '../../types/youtube'
+import { LoggingService } from '../logging'
+import { getImageAsset } from '../runtime/client'
+import { DiskSpaceManager } from './DiskSpaceManager'
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path)
+
+/**
+ * Prepares the video thumbnails. The thumbnail is downloaded once & stored next to the video file (as
+ * `<videoId>.thumbnail.jpg`), so that the hashed and the uploaded thumbnail bytes are always identical.
+ */
+export class ContentThumbnailService {
+  // upper bound of the thumbnail files size (used for the disk space reservation)
+  static readonly MAX_THUMBNAIL_SIZE = 5_000_000
+
+  private readonly MAX_THUMBNAIL_WIDTH = 1280
+
+  readonly logger: Logger
+
+  public constructor(
+    private downloadsDir: string,
+    logging: LoggingService,
+    private diskSpaceManager: DiskSpaceManager
+  ) {
+    this.logger = logging.createLogger('ContentThumbnailService')
+  }
+
+  filePath(videoId: string): string {
+    return path.join(this.downloadsDir, `${videoId}.thumbnail.jpg`)
+  }
+
+  /**
+   * Prepares the thumbnail of the video, unless it has already been prepared (e.g. by the previous attempt).
+   * The best resolution Youtube thumbnail is used (center-cropped to 16:9 aspect ratio, i.e. removing the
+   * letterbox of 4:3 thumbnails), and if there isn't any usable one, a frame of the video file is grabbed.
+   * @param videoFilePath path of the downloaded video file (if any) to grab the fallback thumbnail from
+   * @returns path of the thumbnail file
+   */
+  async prepare(video: YtVideo, videoFilePath?: string): Promise<string> {
+    const filePath = this.filePath(video.id)
+    if (fs.existsSync(filePath)) {
+      return filePath
+    }
+
+    const { maxRes, standard, high, medium, default: defaultThumbnail } = video.thumbnails
+    const urls = [maxRes, standard, high, medium, defaultThumbnail].filter((url): url is string => !!url)
+    for (const url of urls) {
+      try {
+        await this.fromImage(video.id, url)
+        return filePath
+      } catch (err) {
+        this.logger.debug(`Failed to prepare thumbnail from Youtube thumbnail.`, { videoId: video.id, url, err })
+      }
+    }
+
+    if (!videoFilePath) {
+      throw new Error(`Failed to prepare thumbnail of video ${video.id}. No usable Youtube thumbnail found.`)
+    }
+
+    this.logger.warn(`No usable Youtube thumbnail found. Grabbing thumbnail from the video file...`, {
+      videoId: video.id,
+    })
+    // grab the frame at 10% of the video duration, as the first frames are often blank
+    await this.render(video.id, videoFilePath, Math.floor((video.duration || 0) / 10))
+    return filePath
+  }
+
+  /**
+   * Prepares the thumbnail (see `prepare`) within the disk space reservation of the video, so that its partial
+   * files aren't removed as orphaned. Used by the stages that don't hold the video's reservation already.
+   */
+  async prepareReserved(video: YtVideo, videoFilePath?: string): Promise<string> {
+    await this.diskSpaceManager.reserve(video.id, ContentThumbnailService.MAX_THUMBNAIL_SIZE)
+    try {
+      return await this.prepare(video, videoFilePath)
+    } finally {
+      await this.diskSpaceManager.release(video.id)
+    }
+  }
+
+  async remove(videoId: string): Promise<void> {
+    await fsPromises.rm(this.filePath(videoId), { force: true })
+  }
+
+  private async fromImage(videoId: string, url: string) {
+    const sourcePath = path.join(this.downloadsDir, `${videoId}.thumbnail.download`)
+    try {
+      await pipeline(await getImageAsset(url), fs.createWriteStream(sourcePath))
+      await this.render(videoId, sourcePath)
+    } finally {
+      await fsPromises.rm(sourcePath, { force: true })
+    }
+  }
+
+  /**
+   * Renders the thumbnail (center-cropped to 16:9 & scaled down to max width) from the first frame of given
+   * image or video file, or from the frame at given position. The temporary output is renamed once complete.
+   */
+  private async render(videoId: string, inputPath: string, seekSeconds?: number) {
+    const tempPath = path.join(this.downloadsDir, `${videoId}.thumbnail.temp.jpg`)
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const command = ffmpeg(inputPath)
+        if (seekSeconds) {
+          command.seekInput(seekSeconds)
+        }
+        command
+          .outputOptions([
+            '-frames:v 1',
+            `-vf crop='min(iw,ih*16/9)':'min(ih,iw*9/16)',scale='min(${this.MAX_THUMBNAIL_WIDTH},iw)':-2`,
+            '-q:v 2',
+          ])
+          .output(tempPath)
+          .on('end', () => resolve())
+          .on('error', (err) => reject(err))
+          .run()
+      })
+      await fsPromises.rename(tempPath, this.filePath(videoId))
+    } finally {
+      await fsPromises.rm(tempPath, { force: true })
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg'
+import { Job } from 'bullmq'
+import ffmpeg, { FfprobeData } from 'fluent-ffmpeg'
+import fs from 'fs'
+import fsPromises from 'fs/promises'
+import _ from 'lodash'
+import path from 'path'
+import { Logger } from 'winston'
+import { ReadonlyConfig } from '../../types'
+import { DownloadJobOutput, TranscodeJobData, TranscodeJobOutput } from '../../types/youtube'
+import { LoggingService } from '../logging'
+import { DiskSpaceManager } from './DiskSpaceManager'
+import { SyncUtils } from './utils'
+
+ffmpeg.setFfmpegPath(ffmpegInstaller.path)
+
+type TranscodingConfig = NonNullable<ReadonlyConfig['sync']['transcoding']>
+
+// Codecs (ffprobe codec names) of the streams that can be muxed into the media container (any codec if not listed)
+const CONTAINER_CODECS: Record<string, { video: string[]; audio: string[] }> = {
+  mp4: { video: ['h264', 'hevc', 'av1', 'vp9'], audio: ['aac', 'mp3', 'opus', 'flac'] },
+  mov: { video: ['h264', 'hevc', 'prores'], audio: ['aac', 'mp3', 'alac'] },
+  webm: { video: ['vp8', 'vp9', 'av1'], audio: ['vorbis', 'opus'] },
+}
+
+// Codecs of the re-encoded streams
+const ENCODED_VIDEO_CODEC = 'h264'
+const ENCODED_AUDIO_CODEC = 'aac'
+
+/**
+ * Video transcoding service. Downloaded videos whose container or codecs are not in the allow-list are
+ * converted to the allowed container (the first one, in the order of preference, that can hold the output
+ * streams). Streams with allowed codecs are only copied (i.e. remuxed), the others are re-encoded to H.264/AAC.
+ */
+export class ContentTranscodeService {
+  readonly logger: Logger
+
+  public constructor(
+    private config: TranscodingConfig,
+    logging: LoggingService,
+    private diskSpaceManager: DiskSpaceManager
+  ) {
+    this.logger = logging.createLogger('ContentTranscodeService')
+  }
+
+  async start() {
+    this.logger.info(`Starting Video transcoding service.`)
+  }
+
+  private probe(filePath: string): Promise<FfprobeData> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(filePath, (err, data) => (err ? reject(err) : resolve(data)))
+    })
+  }
+
+  private transcode(inputPath: string, outputPath: string, copyVideo: boolean, copyAudio: boolean): Promise<void> {
+    const { preset = 'veryfast', crf = 23 } = this.config
+    return new Promise((resolve, reject) => {
+      ffmpeg(inputPath)
+        .outputOptions([
+          '-map 0:v:0',
+          '-map 0:a:0?',
+          ...(copyVideo ? ['-c:v copy'] : [`-c:v libx264`, `-preset ${preset}`, `-crf ${crf}`, '-pix_fmt yuv420p']),
+          ...(copyAudio ? ['-c:a copy'] : ['-c:a aac', '-b:a 192k']),
+          // move the index to the beginning of the file, so that playback can start before the whole file is loaded
+          ...(['mp4', 'mov'].includes(path.extname(outputPath).slice(1)) ? ['-movflags +faststart'] : []),
+        ])
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(err))
+        .run()
+    })
+  }
+
+  /**
+   * @returns the first of given containers that can hold the output streams (either copied or re-encoded)
+   */
+  private outputFormat(
+    containers: string[],
+    copyVideo: boolean,
+    copyAudio: boolean,
+    videoCodec?: string,
+    audioCodec?: string
+  ): { container: string; copyVideo: boolean; copyAudio: boolean } | undefined {
+    const outputVideoCodec = copyVideo ? videoCodec : ENCODED_VIDEO_CODEC
+    const outputAudioCodec = copyAudio ? audioCodec : ENCODED_AUDIO_CODEC
+    const container = containers.find((c) => {
+      const codecs = CONTAINER_CODECS[c]
+      return (
+        !codecs ||
+        (codecs.video.includes(outputVideoCodec || '') &&
+          (outputAudioCodec === undefined || codecs.audio.includes(outputAudioCodec)))
+      )
+    })
+    return container ? { container, copyVideo, copyAudio } : undefined
+  }
+
+  /// Process transcoding tasks based on their priority.
+  async process(job: Job<TranscodeJobData>): Promise<TranscodeJobOutput> {
+    const video = job.data
+
+    // get downloaded video path
+    const downloadJobOutput = Object.values(await job.getChildrenValues<DownloadJobOutput>())[0]
+    if (!downloadJobOutput) {
+      throw new Error(`Failed to get video file path from 'completed' child job: ${video.id}. File not found.`)
+    }
+
+    const { allowedContainers = ['mp4'], allowedVideoCodecs = ['h264'], allowedAudioCodecs = ['aac'] } = this.config
+    const { streams } = await this.probe(downloadJobOutput.filePath)
+    const container = path.extname(downloadJobOutput.filePath).slice(1)
+    const videoCodec = streams.find((s) => s.codec_type === 'video')?.codec_name || ''
+    const audioCodec = streams.find((s) => s.codec_type === 'audio')?.codec_name
+
+    const copyVideo = allowedVideoCodecs.includes(videoCodec)
+    const copyAudio = audioCodec === undefined || allowedAudioCodecs.includes(audioCodec)
+    if (allowedContainers.includes(container) && copyVideo && copyAudio) {
+      return downloadJobOutput
+    }
+
+    // prefer keeping the original container, if it's allowed
+    const containers = _.uniq([...(allowedContainers.includes(container) ? [container] : []), ...allowedContainers])
+    const output =
+      this.outputFormat(containers, copyVideo, copyAudio, videoCodec, audioCodec) ||
+      this.outputFormat(containers, false, false)
+    if (!output) {
+      throw new Error(
+        `None of the allowed containers (${allowedContainers.join(', ')}) supports ` +
+          `${ENCODED_VIDEO_CODEC}/${ENCODED_AUDIO_CODEC} streams of the transcoded video.`
+      )
+    }
+
+    this.logger.verbose(`Transcoding video...`, { videoId: video.id, container, videoCodec, audioCodec, output })
+
+    // Reserve the disk space for the transcoded file (assuming its size is similar to the size of the original file)
+    const outputPath = SyncUtils.transcodingFilePath(video.id, output.container)
+    await this.diskSpaceManager.reserve(video.id, 2 * SyncUtils.fileSize(video.id))
+    try {
+      await this.transcode(downloadJobOutput.filePath, outputPath, output.copyVideo, output.copyAudio)
+      const filePath = await SyncUtils.replaceVideoFile(video.id, outputPath)
+      return { ...downloadJobOutput, filePath }
+    } catch (err) {
+      if (fs.existsSync(outputPath)) {
+        await fsPromises.unlink(outputPath)
+      }
+      throw err
+    } finally {
+      await this.diskSpaceManager.release(video.id)
+    }
+  }
+}
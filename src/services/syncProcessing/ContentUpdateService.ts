@@ -0,0 +1,90 @@
+import { Job } from 'bullmq'
+import fs from 'fs'
+import { Logger } from 'winston'
+import { IDynamodbService } from '../../repository'
+import { ExitCodes, RuntimeApiError } from '../../types/errors'
+import { UpdateJobData, YtVideo } from '../../types/youtube'
+import { computeFileHashAndSize } from '../../utils/hasher'
+import { LoggingService } from '../logging'
+import { QueryNodeApi } from '../query-node/api'
+import { JoystreamClient } from '../runtime/client'
+import { StorageNodeApi } from '../storage-node/api'
+import { ContentThumbnailService } from './ContentThumbnailService'
+
+/**
+ * Service for propagating metadata changes (title, description, thumbnail
+ * & category) of already synced videos from Youtube to Joystream
+ */
+export class ContentUpdateService {
+  readonly logger: Logger
+  private storageNodeApi: StorageNodeApi
+
+  public constructor(
+    logging: LoggingService,
+    private dynamodbService: IDynamodbService,
+    private joystreamClient: JoystreamClient,
+    private queryNodeApi: QueryNodeApi,
+    private thumbnailService: ContentThumbnailService
+  ) {
+    this.logger = logging.createLogger('ContentUpdateService')
+    this.storageNodeApi = new StorageNodeApi(logging, this.queryNodeApi)
+  }
+
+  async start() {}
+
+  async process(job: Job<UpdateJobData>): Promise<void> {
+    let video: YtVideo = job.data
+    try {
+      const collaboratorIds = await this.joystreamClient.channelCollaboratorIds(
+        video.joystreamChannelId,
+        video.hasOutdatedThumbnail ? ['UpdateVideoMetadata', 'ManageVideoAssets'] : ['UpdateVideoMetadata']
+      )
+      if (!collaboratorIds.length) {
+        throw new RuntimeApiError(
+          ExitCodes.RuntimeApi.COLLABORATOR_NOT_FOUND,
+          `Collaborator member is not allowed to update videos of channel ${video.joystreamChannelId}`
+        )
+      }
+
+      if (video.hasOutdatedThumbnail) {
+        // Remove the thumbnail prepared for the previous thumbnail change (if any)
+        await this.thumbnailService.remove(video.id)
+        const thumbnailFilePath = await this.thumbnailService.prepareReserved(video)
+        const thumbnailHash = await computeFileHashAndSize(fs.createReadStream(thumbnailFilePath))
+        const joystreamVideo = await this.joystreamClient.updateVideo(video, thumbnailHash)
+
+        // Persist the new thumbnail data object ID right away, so that if the thumbnail upload
+        // fails, the next retry only re-uploads the (same) thumbnail instead of replacing it again.
+        video = await this.dynamodbService.videos.save({
+          ...video,
+          joystreamVideo,
+          hasOutdatedThumbnail: false,
+          isHiddenOnJoystream: undefined,
+        })
+        await this.storageNodeApi.uploadThumbnail(video, thumbnailFilePath)
+      } else {
+        await this.joystreamClient.updateVideo(video)
+        video = { ...video, isHiddenOnJoystream: undefined }
+
+        // Thumbnail of a previously failed update may have not been accepted by the storage node yet
+        const qnVideo = await this.queryNodeApi.videoById(video.joystreamVideo.id)
+        if (qnVideo?.thumbnailPhoto && !qnVideo.thumbnailPhoto.isAccepted) {
+          await this.storageNodeApi.uploadThumbnail(video, await this.thumbnailService.prepareReserved(video))
+        }
+      }
+
+      // The thumbnail is kept until it's uploaded, so that the same (hashed) file is uploaded by the retries
+      await this.thumbnailService.remove(video.id)
+
+      // Update video state and save to DB
+      await this.dynamodbService.videos.updateState(video, 'UploadSucceeded')
+    } catch (error) {
+      this.logger.error(`Failed to update metadata of video ${video.id}`, { err: error })
+
+      // Update video state and save to DB
+      await this.dynamodbService.videos.updateState(video, 'MetadataUpdateFailed')
+
+      throw error
+    }
+  }
+}
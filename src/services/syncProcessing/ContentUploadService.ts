@@ -1,10 +1,12 @@
 import { Job } from 'bullmq'
+import fs from 'fs'
 import { Logger } from 'winston'
 import { IDynamodbService } from '../../repository'
 import { UploadJobData } from '../../types/youtube'
 import { LoggingService } from '../logging'
 import { QueryNodeApi } from '../query-node/api'
 import { StorageNodeApi } from '../storage-node/api'
+import { ContentThumbnailService } from './ContentThumbnailService'
 import { SyncUtils } from './utils'
 
 // Video content upload service
@@ -15,7 +17,8 @@ export class ContentUploadService {
   public constructor(
     logging: LoggingService,
     private dynamodbService: IDynamodbService,
-    private queryNodeApi: QueryNodeApi
+    private queryNodeApi: QueryNodeApi,
+    private thumbnailService: ContentThumbnailService
   ) {
     this.logger = logging.createLogger('ContentUploadService')
     this.storageNodeApi = new StorageNodeApi(logging, this.queryNodeApi)
@@ -41,11 +44,22 @@ export class ContentUploadService {
       // Update video state and save to DB
       await this.dynamodbService.videos.updateState(video, 'UploadStarted')
 
-      // Get video file path
+      // Get video & thumbnail file paths
       const filePath = SyncUtils.expectedVideoFilePath(video.id)
+      // thumbnail is prepared by the download stage (unless the flow was created by the older version of the service)
+      const thumbnailFilePath = await this.thumbnailService.prepareReserved(video, filePath)
+
+      // Get subtitles file paths
+      const subtitlesFilePaths = (video.subtitles || []).map(({ language }) =>
+        SyncUtils.subtitleFilePath(video.id, language)
+      )
+      const missingSubtitles = subtitlesFilePaths.filter((p) => !fs.existsSync(p))
+      if (missingSubtitles.length) {
+        throw new Error(`Failed to get subtitles file paths: ${missingSubtitles.join(', ')}. File not found.`)
+      }
 
       // Upload the video assets
-      await this.storageNodeApi.uploadVideo(video, filePath)
+      await this.storageNodeApi.uploadVideo(video, filePath, thumbnailFilePath, subtitlesFilePaths)
 
       // Update video state and save to DB
       await this.dynamodbService.videos.updateState(video, 'UploadSucceeded')
@@ -71,7 +85,11 @@ export class ContentUploadService {
 
     for (const v of videosInUploadState) {
       const qnVideo = await this.queryNodeApi.videoById(v.joystreamVideo.id)
-      if (qnVideo?.media?.isAccepted && qnVideo.thumbnailPhoto?.isAccepted) {
+      if (
+        qnVideo?.media?.isAccepted &&
+        qnVideo.thumbnailPhoto?.isAccepted &&
+        qnVideo.subtitles.every((s) => !s.asset || s.asset.isAccepted)
+      ) {
         await this.dynamodbService.videos.updateState(v, 'UploadSucceeded')
       } else {
         // If QN return a video that was synced, but its assets are not accepted, then need to retry the upload
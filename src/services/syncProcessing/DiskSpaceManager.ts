@@ -0,0 +1,206 @@
+import fsPromises from 'fs/promises'
+import _ from 'lodash'
+import pWaitFor from 'p-wait-for'
+import path from 'path'
+import { Logger } from 'winston'
+import { IDynamodbService } from '../../repository'
+import { LoggingService } from '../logging'
+import { SyncUtils } from './utils'
+
+type DiskSpaceConfig = { downloadsDir: string; storage: number }
+
+type DownloadsDirFileKind = 'video' | 'subtitles' | 'thumbnail' | 'partial'
+
+/**
+ * Manages the disk space of the downloads directory. The used space is reconciled against the actual files in
+ * the directory (including partial downloads & transcoding outputs), while the downloads & transcodings in
+ * progress reserve their expected size upfront, so that the concurrent jobs can't exceed the storage limit.
+ */
+export class DiskSpaceManager {
+  private readonly RESERVATION_CHECK_INTERVAL_MS = 10_000
+  private readonly RESERVATION_TIMEOUT_MS = 30 * 60_000
+  // partial files modified within the grace period aren't considered orphaned, even without the reservation
+  private readonly ORPHANED_FILE_GRACE_PERIOD_MS = 15 * 60_000
+
+  private logger: Logger
+
+  // total size of the files in the downloads directory by the video ID
+  private filesSize = new Map<string, number>()
+
+  // reserved space by the video ID (expected total size of the video files)
+  private reservations = new Map<string, number>()
+
+  constructor(
+    private config: DiskSpaceConfig,
+    logging: LoggingService,
+    private dynamodbService: IDynamodbService,
+    private removeJobFlow: (videoId: string) => Promise<void>
+  ) {
+    this.logger = logging.createLogger('DiskSpaceManager')
+  }
+
+  get usedSpace(): number {
+    const videoIds = new Set([...this.filesSize.keys(), ...this.reservations.keys()])
+    return _.sumBy([...videoIds], (videoId) => this.videoUsedSpace(videoId))
+  }
+
+  get freeSpace(): number {
+    return this.config.storage - this.usedSpace
+  }
+
+  // Space used by the video files, or reserved for them (whichever is greater)
+  private videoUsedSpace(videoId: string): number {
+    return Math.max(this.filesSize.get(videoId) || 0, this.reservations.get(videoId) || 0)
+  }
+
+  private fileKind(fileName: string): DownloadsDirFileKind {
+    const parts = fileName.split('.')
+    if (parts.length === 2 && !['part', 'ytdl', 'temp', 'tmp', 'vtt'].includes(parts[1])) {
+      return 'video'
+    } else if (parts.length === 3 && parts[2] === 'vtt') {
+      return 'subtitles'
+    } else if (parts.length === 3 && parts[1] === 'thumbnail' && parts[2] === 'jpg') {
+      return 'thumbnail'
+    }
+    // e.g. `<id>.mp4.part`, `<id>.f137.mp4` (not yet merged format), `<id>.temp.mp4`, `<id>.transcoding.mp4`
+    // or the thumbnail being prepared (`<id>.thumbnail.download` & `<id>.thumbnail.temp.jpg`)
+    return 'partial'
+  }
+
+  /**
+   * Scans the downloads directory: resolves the downloaded video files, recalculates the used space & removes
+   * the orphaned partial files (i.e. the partial files of the videos that aren't being downloaded or transcoded,
+   * and that haven't been modified within the grace period, in case they are written without the reservation).
+   */
+  async reconcile(): Promise<void> {
+    const dir = this.config.downloadsDir
+    const filesSize = new Map<string, number>()
+    const orphanedFiles: string[] = []
+
+    for (const file of await fsPromises.readdir(dir)) {
+      const videoId = file.split('.')[0]
+      const filePath = path.join(dir, file)
+      const kind = this.fileKind(file)
+      try {
+        const { size, mtimeMs } = await fsPromises.stat(filePath)
+        const isOrphaned =
+          kind === 'partial' &&
+          !this.reservations.has(videoId) &&
+          Date.now() - mtimeMs > this.ORPHANED_FILE_GRACE_PERIOD_MS
+        if (isOrphaned) {
+          await fsPromises.unlink(filePath)
+          orphanedFiles.push(file)
+          continue
+        }
+
+        filesSize.set(videoId, (filesSize.get(videoId) || 0) + size)
+        if (kind === 'video') {
+          SyncUtils.setVideoFilePath(videoId, filePath)
+        }
+      } catch (err) {
+        // file could have been removed in the meantime (e.g. by the finished download)
+        continue
+      }
+    }
+
+    this.filesSize = filesSize
+    if (orphanedFiles.length) {
+      this.logger.info(`Removed orphaned partial files from downloads directory`, { orphanedFiles })
+    }
+  }
+
+  /**
+   * Reserves the space for the video files that are going to be downloaded (or transcoded). If there isn't
+   * enough free space, the files of the videos that haven't been created on chain yet are evicted, and if
+   * that's still not enough, the reservation waits until enough space is freed (e.g. by the uploaded videos).
+   * @param size expected total size of the video files
+   */
+  async reserve(videoId: string, size: number): Promise<void> {
+    if (size > this.config.storage) {
+      throw new Error(`Expected size of the video files (${size} bytes) exceeds the storage limit.`)
+    }
+
+    const fits = () => this.usedSpace + Math.max(size - this.videoUsedSpace(videoId), 0) <= this.config.storage
+    let isWaiting = false
+
+    try {
+      await pWaitFor(
+        async () => {
+          await this.reconcile()
+          if (!fits()) {
+            const spaceToFree = this.usedSpace + size - this.videoUsedSpace(videoId) - this.config.storage
+            await this.evictUncreatedVideos(spaceToFree, videoId)
+          }
+          if (!fits() && !isWaiting) {
+            isWaiting = true
+            this.logger.warn(`Not enough free disk space for the video files. Waiting for the space to be freed...`, {
+              videoId,
+              size,
+              freeSpace: this.freeSpace,
+            })
+          }
+
+          // reserve the space right after the check, so that the concurrent reservations can't overcommit it
+          if (fits()) {
+            this.reservations.set(videoId, Math.max(size, this.reservations.get(videoId) || 0))
+            return true
+          }
+          return false
+        },
+        { interval: this.RESERVATION_CHECK_INTERVAL_MS, timeout: this.RESERVATION_TIMEOUT_MS }
+      )
+    } catch (err) {
+      throw new Error(`Failed to reserve disk space for the video files (${size} bytes). Error: ${err}`)
+    }
+  }
+
+  /**
+   * Releases the reserved space, once the download/transcoding has finished, after which
+   * only the actual size of the video files (if they weren't removed) is accounted
+   */
+  async release(videoId: string): Promise<void> {
+    this.reservations.delete(videoId)
+    await this.reconcile()
+  }
+
+  /**
+   * Evicts the downloaded files of the videos that haven't been created on chain yet (largest files first) until
+   * the given space is freed. The job flows of evicted videos are removed, so that they are downloaded again once
+   * the videos are scheduled for processing. Videos whose flows are being processed can't be evicted.
+   */
+  private async evictUncreatedVideos(spaceToFree: number, reservingVideoId: string) {
+    const candidates = (await this.dynamodbService.videos.getAllUnsyncedVideos()).filter(
+      (v) => v.id !== reservingVideoId && !v.joystreamVideo && this.filesSize.has(v.id) && !this.reservations.has(v.id)
+    )
+
+    let freedSpace = 0
+    for (const video of _.orderBy(candidates, (v) => this.filesSize.get(v.id), 'desc')) {
+      if (freedSpace >= spaceToFree) {
+        break
+      }
+
+      try {
+        await this.removeJobFlow(video.id)
+      } catch (err) {
+        continue
+      }
+
+      const size = this.filesSize.get(video.id) || 0
+      await this.removeVideoFiles(video.id)
+      freedSpace += size
+      this.logger.info(`Evicted downloaded files of the video to free disk space.`, { videoId: video.id, size })
+    }
+  }
+
+  // Removes all files (video, subtitles & partial files) of the video from the downloads directory
+  async removeVideoFiles(videoId: string): Promise<void> {
+    const dir = this.config.downloadsDir
+    for (const file of await fsPromises.readdir(dir)) {
+      if (file.startsWith(`${videoId}.`)) {
+        await fsPromises.unlink(path.join(dir, file))
+      }
+    }
+    SyncUtils.downloadedVideoFilePaths.delete(videoId)
+    this.filesSize.delete(videoId)
+  }
+}
@@ -1,21 +1,39 @@
 import AsyncLock from 'async-lock'
-import { FlowJob, FlowProducer, Job, Queue, QueueEvents, Worker } from 'bullmq'
+import { FlowJob, FlowProducer, Job, JobNode, Queue, QueueEvents, UnrecoverableError, Worker } from 'bullmq'
 import { randomUUID } from 'crypto'
 import IORedis from 'ioredis'
 import _ from 'lodash'
 import { Logger } from 'winston'
-import { DynamodbService } from '../../repository'
+import { IDynamodbService } from '../../repository'
 import { ReadonlyConfig } from '../../types'
-import { YtChannel, YtVideo } from '../../types/youtube'
+import { YtVideo } from '../../types/youtube'
+import { ChannelLimitsPolicy } from './ChannelLimitsPolicy'
 import { SyncUtils } from './utils'
 
 export type TaskType<T = YtVideo> = { id: string; priority: number } & T
 
 export type ProcessorType = 'batch' | 'concurrent'
 
+type RedisConfig = ReadonlyConfig['endpoints']['redis']
+
+// BullMQ default prefix of the Redis keys
+export const DEFAULT_REDIS_KEY_PREFIX = 'bull'
+
+// Failed jobs are kept in Redis (until the video is retried) for the inspection purposes
+const FAILED_JOBS_RETENTION_SECS = 7 * 24 * 60 * 60 // 7 days
+
 export type ConcurrentProcessor<Task, ReturnData> = (job: Job<Task, ReturnData>) => Promise<ReturnData>
 
-export type BatchProcessor<Task> = (jobs: Job<Task>[]) => Promise<Job<Task>[]>
+// Jobs of the batch that were processed (the remaining jobs are processed in the next batch)
+export type BatchProcessorResult<Task> = {
+  completed: Job<Task>[]
+  failed: { job: Job<Task>; err: Error }[]
+}
+
+export type BatchProcessor<Task> = (jobs: Job<Task>[]) => Promise<BatchProcessorResult<Task>>
+
+// Called when the job has failed after exhausting all of its attempts
+export type FailedJobHandler = (job: Job<YtVideo>, err: Error) => Promise<void>
 
 export interface ProcessorInstance<P, T, R> {
   logger: Logger
@@ -26,19 +44,20 @@ export interface ProcessorInstance<P, T, R> {
 type PriorityQueueOptions<
   P extends ProcessorType,
   T extends TaskType,
-  R = P extends 'concurrent' ? any : Job<T>[],
+  R = P extends 'concurrent' ? any : BatchProcessorResult<T>,
   I extends ProcessorInstance<P, T, R> = ProcessorInstance<P, T, R>
 > = {
   name: string
   processorType: P
   concurrencyOrBatchSize: number
   processorInstance: I
+  onJobFailed?: FailedJobHandler
 }
 
 export class PriorityJobQueue<
   P extends ProcessorType = ProcessorType,
   T extends TaskType = TaskType,
-  R = P extends 'concurrent' ? any : Job<T>[],
+  R = P extends 'concurrent' ? any : BatchProcessorResult<T>,
   I extends ProcessorInstance<P, T, R> = ProcessorInstance<P, T, R>
 > {
   private readonly BATCH_LOCK_ID = 'batch'
@@ -49,14 +68,19 @@ export class PriorityJobQueue<
   readonly queue: Queue<T>
   private worker: Worker
   private connection: IORedis
+  private prefix: string
+  private onJobFailed: FailedJobHandler | undefined
+  private startProcessing: () => void
 
-  constructor(redis: ReadonlyConfig['endpoints']['redis'], options: PriorityQueueOptions<P, T, R, I>) {
+  constructor(redis: RedisConfig, options: PriorityQueueOptions<P, T, R, I>) {
     this.logger = options.processorInstance.logger
     this.concurrencyOrBatchSize = options.concurrencyOrBatchSize
+    this.onJobFailed = options.onJobFailed
     this.connection = new IORedis(redis.port, redis.host, { maxRetriesPerRequest: null })
+    this.prefix = redis.prefix || DEFAULT_REDIS_KEY_PREFIX
 
     // Reuse the ioredis instance
-    this.queue = new Queue(options.name, { connection: this.connection })
+    this.queue = new Queue(options.name, { connection: this.connection, prefix: this.prefix })
     // Check processor type
     options.processorType === 'concurrent'
       ? this.setupConcurrentProcessing(
@@ -67,13 +91,26 @@ export class PriorityJobQueue<
         )
   }
 
+  /**
+   * Starts processing the jobs of the queue. Workers don't process any jobs until started, so that
+   * the job flows that survived the restart can be reconciled before any of their jobs is processed.
+   */
+  start() {
+    this.startProcessing()
+  }
+
   private setupConcurrentProcessing(processor: ConcurrentProcessor<T, R>) {
     this.worker = new Worker(this.queue.name, processor, {
       connection: this.connection,
+      prefix: this.prefix,
       concurrency: this.concurrencyOrBatchSize,
       removeOnComplete: { count: 0, age: 0 },
-      removeOnFail: { count: 0, age: 0 },
+      removeOnFail: { age: FAILED_JOBS_RETENTION_SECS },
+      autorun: false,
     })
+    this.startProcessing = () => {
+      this.worker.run().catch((err) => this.logger.error(err))
+    }
 
     this.worker.on('active', (job) => {
       this.logger.debug(`Started job in queue '${this.queue.name}'`, { jobId: job.data.id })
@@ -83,8 +120,15 @@ export class PriorityJobQueue<
       this.logger.debug(`Completed job in queue '${this.queue.name}'`, { jobId: job.data.id })
     })
 
-    this.worker.on('failed', (job, err) => {
-      this.logger.error(`Failed job in queue '${this.queue.name}'`, { jobId: job?.data.id, err: err?.message })
+    this.worker.on('failed', async (job, err) => {
+      this.logger.error(`Failed job in queue '${this.queue.name}'`, {
+        jobId: job?.data.id,
+        attemptsMade: job?.attemptsMade,
+        err: err?.message,
+      })
+      if (job) {
+        await this.handleFailedJob(job, err)
+      }
     })
 
     this.worker.on('error', (err) => {
@@ -99,8 +143,9 @@ export class PriorityJobQueue<
   private setupBatchProcessing(processor: BatchProcessor<T>) {
     this.worker = new Worker(this.queue.name, undefined, {
       connection: this.connection,
+      prefix: this.prefix,
       removeOnComplete: { count: 0 },
-      removeOnFail: { count: 0 },
+      removeOnFail: { age: FAILED_JOBS_RETENTION_SECS },
     })
 
     const getNJobs = async (n: number): Promise<Job[]> => {
@@ -120,21 +165,58 @@ export class PriorityJobQueue<
         try {
           if (jobs.length) {
             // Move all the successfully completed batch jobs to 'completed' state
-            const completed = await processor(jobs)
+            const { completed, failed } = await processor(jobs)
             await Promise.all(completed.map((job) => job.moveToCompleted(job.data, job.token || '', false)))
 
-            // Move all the unprocessed batch jobs to 'delayed' state, so that they can be processed in the next batch
-            const unprocessed = jobs.filter((job) => !completed.some((c) => c.id === job.id))
-            await Promise.all(unprocessed.map((job) => job.moveToDelayed(Date.now(), job.token || '')))
+            // Move the individually failed batch jobs to 'failed' state (or to 'delayed' state, if they will be retried)
+            await Promise.all(failed.map(({ job, err }) => job.moveToFailed(err, job.token || '', false)))
+            await Promise.all(failed.map(({ job, err }) => this.handleFailedJob(job, err)))
+
+            // Defer all the unprocessed batch jobs, so that they can be processed in the next batch
+            const processed = [...completed, ...failed.map(({ job }) => job)]
+            const unprocessed = jobs.filter((job) => !processed.some((p) => p.id === job.id))
+            await Promise.all(unprocessed.map((job) => this.deferJob(job)))
           }
         } catch (err) {
-          // Move all the failed batch jobs to 'failed' state
+          // Move all the failed batch jobs to 'failed' state (or to 'delayed' state, if they will be retried)
           await Promise.all(jobs.map((job) => job.moveToFailed(err as Error, job.token || '', false)))
+          await Promise.all(jobs.map((job) => this.handleFailedJob(job, err as Error)))
           this.logger.error(err)
         }
       })
 
-    setInterval(async () => await doBatchProcessing(), 6000 /* 6 seconds (1 block time) interval */)
+    this.startProcessing = () => {
+      // Stalled jobs checker isn't started automatically for the manually processed jobs. It moves back
+      // to the wait state the jobs that were being processed when the previous service instance crashed
+      this.worker.startStalledCheckTimer().catch((err) => this.logger.error(err))
+
+      setInterval(async () => await doBatchProcessing(), 6000 /* 6 seconds (1 block time) interval */)
+    }
+  }
+
+  /**
+   * Moves the (active) job that wasn't processed in the batch to 'delayed' state. Every activation of the job
+   * (by `getNextJob`) counts as an attempt, so the attempt is given back, otherwise the deferrals of the job
+   * would exhaust its retry attempts & only the processing failures need to be counted.
+   */
+  private async deferJob(job: Job) {
+    const client = await this.queue.client
+    await client.hincrby(this.queue.toKey(job.id || ''), 'attemptsMade', -1)
+    job.attemptsMade--
+    await job.moveToDelayed(Date.now(), job.token || '')
+  }
+
+  private async handleFailedJob(job: Job<T>, err: Error) {
+    // job will be retried
+    if (job.attemptsMade < (job.opts.attempts || 1) && !(err instanceof UnrecoverableError)) {
+      return
+    }
+
+    try {
+      await this.onJobFailed?.(job, err)
+    } catch (e) {
+      this.logger.error(`Failed to handle failed job in queue '${this.queue.name}'`, { jobId: job.data.id, err: e })
+    }
   }
 
   async addJob(data: T): Promise<void> {
@@ -146,7 +228,7 @@ export class PriorityJobQueue<
     }
   }
 
-  async recalculateJobsPriority({ channels }: DynamodbService) {
+  async recalculateJobsPriority({ channels }: IDynamodbService, channelLimitsPolicy: ChannelLimitsPolicy) {
     const jobs = await this.queue.getJobs('prioritized')
 
     const jobsByChannelId = _(jobs)
@@ -159,17 +241,12 @@ export class PriorityJobQueue<
         // Get total videos of channel
         const channel = await channels.getById(channelId)
 
-        const totalVideos = YtChannel.totalVideos(channel)
+        const totalVideos = channelLimitsPolicy.totalVideos(channel)
         const percentageOfCreatorBacklogNotSynched = (unprocessedJobs.length * 100) / totalVideos
 
         for (const job of unprocessedJobs) {
-          let sudoPriority = SyncUtils.DEFAULT_SUDO_PRIORITY
-          if (new Date(job.data.publishedAt) > channel.createdAt && job.data.duration > 300) {
-            sudoPriority += 50
-          }
-
           const priority = SyncUtils.calculateJobPriority(
-            sudoPriority,
+            SyncUtils.sudoPriority(job.data, channel),
             percentageOfCreatorBacklogNotSynched,
             Date.parse(job.data.publishedAt)
           )
@@ -181,15 +258,23 @@ export class PriorityJobQueue<
   }
 }
 
+// Children of the flow's job node that were already removed from Redis are returned as `undefined`
+function withoutRemovedJobs({ job, children }: JobNode): JobNode {
+  const existingChildren = (children || []).filter((child): child is JobNode => !!child?.job)
+  return existingChildren.length ? { job, children: existingChildren.map(withoutRemovedJobs) } : { job }
+}
+
 export class JobsFlowManager {
   private flowProducer: FlowProducer
   private jobQueuesByName: Map<string, PriorityJobQueue> = new Map()
   private queueEventsByName: Map<string, QueueEvents> = new Map()
   private connection: IORedis
+  private prefix: string
 
-  constructor(private redis: ReadonlyConfig['endpoints']['redis']) {
+  constructor(private redis: RedisConfig) {
     this.connection = new IORedis(redis.port, redis.host, { maxRetriesPerRequest: null })
-    this.flowProducer = new FlowProducer({ connection: this.connection })
+    this.prefix = redis.prefix || DEFAULT_REDIS_KEY_PREFIX
+    this.flowProducer = new FlowProducer({ connection: this.connection, prefix: this.prefix })
   }
 
   /**
@@ -230,14 +315,72 @@ export class JobsFlowManager {
       throw new Error(`Can't get queue events listener for non-existent queue ${name}`)
     }
 
-    return this.queueEventsByName.get(name) || new QueueEvents(name, { connection: this.connection })
+    return (
+      this.queueEventsByName.get(name) || new QueueEvents(name, { connection: this.connection, prefix: this.prefix })
+    )
   }
 
   getJobQueues(): PriorityJobQueue[] {
     return [...this.jobQueuesByName.values()]
   }
 
+  // Starts processing the jobs of all the queues
+  startJobQueues() {
+    this.getJobQueues().forEach((q) => q.start())
+  }
+
   async addFlowJob(flowJob: FlowJob) {
+    // BullMQ ignores the jobs that are added with the ID of an already existing job, so the
+    // finished (i.e. failed) jobs of the previous flow of the same video need to be removed first
+    await this.removeFinishedJobs(flowJob)
     return this.flowProducer.add(flowJob)
   }
+
+  /**
+   * @param queueName name of the queue of the flow's root job
+   * @param jobId root job ID
+   * @returns Job flow tree (`undefined` if the root job doesn't exist). Completed jobs are removed
+   * from Redis (see `removeOnComplete`), so the tree only contains the waiting, delayed, active & failed jobs
+   */
+  async getFlow(queueName: string, jobId: string): Promise<JobNode | undefined> {
+    const flow: JobNode | undefined = await this.flowProducer.getFlow({ queueName, id: jobId, prefix: this.prefix })
+    return flow && withoutRemovedJobs(flow)
+  }
+
+  /**
+   * Removes the job queues that were left under the BullMQ default Redis keys prefix after custom
+   * `endpoints.redis.prefix` was configured (their job flows are rebuilt from the database state)
+   * @returns names of the removed queues
+   */
+  async removeDefaultPrefixQueues(): Promise<string[]> {
+    const removed: string[] = []
+    if (this.prefix === DEFAULT_REDIS_KEY_PREFIX) {
+      return removed
+    }
+
+    for (const name of this.jobQueuesByName.keys()) {
+      const queue = new Queue(name, { connection: this.connection, prefix: DEFAULT_REDIS_KEY_PREFIX })
+      try {
+        if (_.sum(Object.values(await queue.getJobCounts()))) {
+          await queue.obliterate({ force: true })
+          removed.push(name)
+        }
+      } finally {
+        await queue.close()
+      }
+    }
+    return removed
+  }
+
+  private async removeFinishedJobs({ queueName, opts, children }: FlowJob): Promise<void> {
+    const job = opts?.jobId ? await Job.fromId(this.getJobQueue(queueName).queue, opts.jobId) : undefined
+    const state = await job?.getState()
+    if (job && (state === 'failed' || state === 'completed')) {
+      await job.remove({ removeChildren: false })
+    }
+
+    for (const child of children || []) {
+      await this.removeFinishedJobs(child)
+    }
+  }
 }
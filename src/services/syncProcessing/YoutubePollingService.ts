@@ -1,30 +1,50 @@
 import { GaxiosError } from 'gaxios/build/src/common'
 import _ from 'lodash'
 import sleep from 'sleep-promise'
+import { Readable } from 'stream'
 import { Logger } from 'winston'
-import { IDynamodbService } from '../../repository'
+import { IDynamodbService, PlaylistUpdate, VideoUpdate } from '../../repository'
+import { ReadonlyConfig } from '../../types'
 import { ExitCodes, YoutubeApiError } from '../../types/errors'
-import { YtChannel, YtDlpFlatPlaylistOutput, verifiedVariants } from '../../types/youtube'
+import { YtChannel, YtDlpFlatPlaylistOutput, YtVideo, verifiedVariants } from '../../types/youtube'
+import { computeFileHashAndSize } from '../../utils/hasher'
 import { LoggingService } from '../logging'
-import { JoystreamClient } from '../runtime/client'
+import { QueryNodeApi } from '../query-node/api'
+import { JoystreamClient, getImageData, getImageEtag } from '../runtime/client'
+import { StorageNodeApi } from '../storage-node/api'
 import { IYoutubeApi } from '../youtube/api'
+import { ChannelLimitsPolicy } from './ChannelLimitsPolicy'
+import { SyncUtils } from './utils'
 
 export class YoutubePollingService {
   private logger: Logger
   private youtubeApi: IYoutubeApi
   private joystreamClient: JoystreamClient
   private dynamodbService: IDynamodbService
+  private storageNodeApi: StorageNodeApi
+  private readonly DEFAULT_REAUTHORIZATION_GRACE_PERIOD = 168 // hours
+
+  // max. no. of the synced videos of a channel reconciled per polling cycle (i.e. a single `videos.list` page)
+  private readonly RECONCILED_VIDEOS_PER_CYCLE = 50
+
+  // offset of the next synced videos page to reconcile by the channel ID
+  private reconcileOffsets = new Map<string, number>()
 
   public constructor(
     logging: LoggingService,
     youtubeApi: IYoutubeApi,
     dynamodbService: IDynamodbService,
-    joystreamClient: JoystreamClient
+    joystreamClient: JoystreamClient,
+    queryNodeApi: QueryNodeApi,
+    private channelLimitsPolicy: ChannelLimitsPolicy,
+    private reauthorizationGracePeriod?: number,
+    private pollingConfig?: ReadonlyConfig['sync']['polling']
   ) {
     this.logger = logging.createLogger('YoutubePollingService')
     this.youtubeApi = youtubeApi
     this.dynamodbService = dynamodbService
     this.joystreamClient = joystreamClient
+    this.storageNodeApi = new StorageNodeApi(logging, queryNodeApi)
   }
 
   async start(pollingInterval: number) {
@@ -36,16 +56,255 @@ export class YoutubePollingService {
     setTimeout(async () => this.runPollingWithInterval(pollingInterval), 0)
   }
 
+  /**
+   * @returns videos of the channel with given IDs, with the Joystream category assigned according to the
+   * channel's `videoCategoryMode` (i.e. either the channel's category or the one mapped from Youtube category)
+   */
+  private async getVideos(channel: YtChannel, ids: string[], unfiltered?: boolean): Promise<YtVideo[]> {
+    const videos = await this.youtubeApi.getVideos(channel, ids, unfiltered)
+    if (channel.videoCategoryMode !== 'AutoMapped') {
+      return videos
+    }
+
+    const mappings = _.keyBy(await this.dynamodbService.repo.videoCategoryMappings.scanAll(), 'ytCategoryId')
+    return videos.map((v) => ({
+      ...v,
+      category: (v.ytCategoryId && mappings[v.ytCategoryId]?.joystreamCategoryId) || channel.videoCategoryId,
+    }))
+  }
+
   // get IDs of all videos of a channel that are still not tracked in DB
   private async getUntrackedVideosIds(
     channel: YtChannel,
     videosIds: YtDlpFlatPlaylistOutput
   ): Promise<YtDlpFlatPlaylistOutput> {
     // Get all the existing videos
-    const existingVideos = await this.dynamodbService.repo.videos.query({ channelId: channel.id }, (q) => q)
+    const existingVideos = await this.dynamodbService.repo.videos.getByChannelId(channel.id)
     return _.differenceBy(videosIds, existingVideos, 'id')
   }
 
+  /**
+   * Checks the videos awaiting for their live-stream replays (VODs), and moves the videos whose broadcast
+   * has ended & replay has been processed by Youtube to the `New` state, so that they can be synced.
+   */
+  private async ingestAvailableVods(channel: YtChannel) {
+    const awaitingVods = (await this.dynamodbService.repo.videos.getByChannelId(channel.id)).filter(
+      (v) => v.state === 'AwaitingVod'
+    )
+    if (!awaitingVods.length) {
+      return
+    }
+
+    const uptodateVideos = _.keyBy(
+      await this.getVideos(
+        channel,
+        awaitingVods.map((v) => v.id),
+        true
+      ),
+      'id'
+    )
+
+    const updatedVideos = awaitingVods.flatMap((video): VideoUpdate[] => {
+      const uptodateVideo = uptodateVideos[video.id]
+      if (!uptodateVideo) {
+        // broadcast was deleted
+        return [{ id: video.id, channelId: video.channelId, state: 'VideoUnavailable' }]
+      } else if (uptodateVideo.state === 'New') {
+        return [{ ...uptodateVideo, createdAt: video.createdAt }]
+      } else if (uptodateVideo.state === 'VideoUnavailable') {
+        // broadcast was made private, or its replay can't be synced (e.g. exceeds the max allowed duration)
+        this.logger.info(`Live-stream replay can't be synced`, {
+          videoId: video.id,
+          privacyStatus: uptodateVideo.privacyStatus,
+          duration: uptodateVideo.duration,
+        })
+        return [{ id: video.id, channelId: video.channelId, state: 'VideoUnavailable' }]
+      }
+      return []
+    })
+
+    await this.dynamodbService.repo.videos.upsertAll(updatedVideos)
+  }
+
+  /**
+   * Saves all playlists of the channel, and sets the `playlistId` of tracked videos to the
+   * ID of the (first) playlist they belong to. Playlists deleted on Youtube are removed.
+   * Items of the playlist are only fetched if the playlist is new or its ETag or items count
+   * has changed, the unchanged playlists only cost the (paginated) playlists listing.
+   * Note: the playlists aren't created/updated on Joystream, as the metadata protocol has no playlist
+   * metadata standard yet (`ContentMetadata` only supports `VideoMetadata`).
+   */
+  private async performPlaylistsIngestion(channel: YtChannel) {
+    const playlists = await this.youtubeApi.getPlaylists(channel)
+    const existingPlaylists = _.keyBy(await this.dynamodbService.repo.playlists.getByChannelId(channel.id), 'id')
+
+    const playlistUpdates: PlaylistUpdate[] = []
+    for (const { createdAt, ...playlist } of playlists) {
+      const existingPlaylist = existingPlaylists[playlist.id]
+      if (existingPlaylist?.etag === playlist.etag && existingPlaylist?.itemCount === playlist.itemCount) {
+        continue
+      }
+      const videoIds = await this.youtubeApi.getPlaylistVideoIds(channel, playlist.id)
+      playlistUpdates.push({ ...playlist, videoIds, ...(existingPlaylist ? {} : { createdAt }) })
+    }
+
+    await this.dynamodbService.repo.playlists.upsertAll(playlistUpdates)
+    for (const { channelId, id } of _.differenceBy(Object.values(existingPlaylists), playlists, 'id')) {
+      await this.dynamodbService.repo.playlists.delete(channelId, id)
+    }
+
+    // saved playlists are used (in the Youtube order), so that the playlist IDs of the videos tracked since
+    // the last playlists change are also set
+    const savedPlaylists = _.keyBy(await this.dynamodbService.repo.playlists.getByChannelId(channel.id), 'id')
+    const playlistIdByVideoId = new Map<string, string>()
+    for (const playlist of playlists) {
+      for (const videoId of savedPlaylists[playlist.id]?.videoIds || []) {
+        if (!playlistIdByVideoId.has(videoId)) {
+          playlistIdByVideoId.set(videoId, playlist.id)
+        }
+      }
+    }
+
+    const trackedVideos = await this.dynamodbService.repo.videos.getByChannelId(channel.id)
+    const videosWithChangedPlaylist = trackedVideos
+      .filter((v) => playlistIdByVideoId.get(v.id) !== (v.playlistId || undefined))
+      .map((v): VideoUpdate => ({ id: v.id, channelId: v.channelId, playlistId: playlistIdByVideoId.get(v.id) }))
+
+    await this.dynamodbService.repo.videos.upsertAll(videosWithChangedPlaylist)
+  }
+
+  /**
+   * @returns next page of the synced videos of the channel to reconcile, so that the whole
+   * synced library is reconciled over multiple polling cycles
+   */
+  private nextSyncedVideosPage(channel: YtChannel, syncedVideos: YtVideo[]): YtVideo[] {
+    const offset = this.reconcileOffsets.get(channel.id) || 0
+    const start = offset < syncedVideos.length ? offset : 0
+    this.reconcileOffsets.set(channel.id, start + this.RECONCILED_VIDEOS_PER_CYCLE)
+    return _.sortBy(syncedVideos, 'id').slice(start, start + this.RECONCILED_VIDEOS_PER_CYCLE)
+  }
+
+  /**
+   * Compares (a page of) synced videos of a channel with their current version on Youtube. Videos whose
+   * title, description, thumbnail or Youtube category have changed are marked for the metadata update,
+   * while videos that were deleted or made private on Youtube are either hidden or deleted on Joystream,
+   * depending on the channel's `unavailableVideoPolicy`. Thumbnail changes are detected (unless disabled by
+   * `sync.polling.detectThumbnailChanges`) by the ETag of the thumbnail image, which is recorded when the video
+   * is reconciled for the first time. Videos linked to the Joystream video of another channel aren't reconciled,
+   * as that video isn't managed by the channel.
+   */
+  private async reconcileSyncedVideos(channel: YtChannel) {
+    const syncedVideos = this.nextSyncedVideosPage(
+      channel,
+      (await this.dynamodbService.repo.videos.getByChannelId(channel.id)).filter(
+        (v) =>
+          !v.linkedJoystreamChannelId &&
+          (v.state === 'UploadSucceeded' ||
+            v.state === 'MetadataUpdatePending' ||
+            v.state === 'MetadataUpdateFailed' ||
+            v.state === 'VideoHidden')
+      )
+    )
+    if (!syncedVideos.length) {
+      return
+    }
+
+    // all the videos returned by Youtube are compared (not only the sync-able ones, e.g. age-restricted
+    // videos are still available), so the missing ones are deleted & the non public ones are private
+    const uptodateVideos = _.keyBy(
+      await this.getVideos(
+        channel,
+        syncedVideos.map((v) => v.id),
+        true
+      ),
+      'id'
+    )
+
+    const videoUpdates: VideoUpdate[] = []
+    const unavailableVideos: YtVideo[] = []
+    for (const video of syncedVideos) {
+      const uptodateVideo = uptodateVideos[video.id]
+      if (!uptodateVideo || uptodateVideo.privacyStatus !== 'public') {
+        if (video.state !== 'VideoHidden') {
+          unavailableVideos.push(video)
+        }
+        continue
+      }
+
+      const thumbnailEtag =
+        this.pollingConfig?.detectThumbnailChanges !== false ? await this.thumbnailEtag(uptodateVideo) : undefined
+      const hasThumbnailChanged = !!video.thumbnailEtag && !!thumbnailEtag && video.thumbnailEtag !== thumbnailEtag
+
+      // Youtube category (instead of the assigned Joystream category) is compared, so that the change of the
+      // channel's category (or the category mappings) doesn't cause the update of all the synced videos
+      const hasMetadataChanged =
+        video.title !== uptodateVideo.title ||
+        video.description !== uptodateVideo.description ||
+        (!!video.ytCategoryId && video.ytCategoryId !== uptodateVideo.ytCategoryId)
+
+      // hidden videos that are public again on Youtube need to be republished
+      if (hasThumbnailChanged || hasMetadataChanged || video.state === 'VideoHidden') {
+        videoUpdates.push({
+          id: video.id,
+          channelId: video.channelId,
+          title: uptodateVideo.title,
+          description: uptodateVideo.description,
+          thumbnails: uptodateVideo.thumbnails,
+          thumbnailEtag: thumbnailEtag || video.thumbnailEtag,
+          category: uptodateVideo.category,
+          ytCategoryId: uptodateVideo.ytCategoryId,
+          hasOutdatedThumbnail: video.hasOutdatedThumbnail || hasThumbnailChanged,
+          ...(video.state === 'VideoHidden' && { isHiddenOnJoystream: true }),
+          state: 'MetadataUpdatePending',
+        })
+      } else if (thumbnailEtag && !video.thumbnailEtag) {
+        videoUpdates.push({ id: video.id, channelId: video.channelId, thumbnailEtag })
+      }
+    }
+
+    const changedVideos = videoUpdates.filter((v) => v.state === 'MetadataUpdatePending')
+    if (changedVideos.length) {
+      this.logger.info(`Detected metadata changes of ${changedVideos.length} synced videos`, { channelId: channel.id })
+    }
+    await this.dynamodbService.repo.videos.upsertAll(videoUpdates)
+
+    const policy = channel.unavailableVideoPolicy || 'Hide'
+    for (const video of unavailableVideos) {
+      const { id, channelId } = video
+      try {
+        if (policy === 'Delete') {
+          await this.joystreamClient.deleteVideo(video)
+          await this.dynamodbService.repo.videos.save({ id, channelId, state: 'VideoDeleted' })
+        } else {
+          await this.joystreamClient.hideVideo(video)
+          await this.dynamodbService.repo.videos.save({
+            id,
+            channelId,
+            state: 'VideoHidden',
+            isHiddenOnJoystream: true,
+          })
+        }
+        this.logger.info(`Video is no longer available on Youtube, applied '${policy}' policy`, {
+          videoId: video.id,
+          joystreamVideoId: video.joystreamVideo.id,
+        })
+      } catch (err) {
+        this.logger.error('Failed to remove unavailable video from Joystream', { err, videoId: video.id })
+      }
+    }
+  }
+
+  // ETag of the video's Youtube thumbnail (if it can be resolved)
+  private async thumbnailEtag(video: YtVideo): Promise<string | undefined> {
+    const url = YtVideo.thumbnailUrl(video)
+    try {
+      return url ? await getImageEtag(url) : undefined
+    } catch (err) {
+      this.logger.debug(`Failed to resolve ETag of the video thumbnail`, { videoId: video.id, url, err })
+      return undefined
+    }
+  }
+
   /**
    * Performs polling for updating channel state.
    * @param pollingIntervalMinutes - defines an interval between polling runs
@@ -77,26 +336,54 @@ export class YoutubePollingService {
     }
   }
 
+  /**
+   * Opts out the channels from YPP program whose owners haven't re-authorized the app within the grace period
+   */
+  private async optOutUnreauthorizedChannels() {
+    const gracePeriodMs =
+      (this.reauthorizationGracePeriod ?? this.DEFAULT_REAUTHORIZATION_GRACE_PERIOD) * 60 * 60 * 1000
+    const expiredChannels = (
+      await this.dynamodbService.repo.channels.getByYppStatus(['ReauthorizationRequired'])
+    ).filter(
+      (ch) => !ch.reauthorizationRequiredAt || ch.reauthorizationRequiredAt.getTime() + gracePeriodMs <= Date.now()
+    )
+
+    for (const ch of expiredChannels) {
+      this.logger.warn(
+        `Opting out '${ch.id}' from YPP program as their owner hasn't re-authorized the app within the grace period`
+      )
+      // channel is only opted out if it still requires re-authorization (i.e. it hasn't been re-authorized meanwhile)
+      const optedOutChannel = await this.dynamodbService.repo.channels.saveIfYppStatus(
+        {
+          id: ch.id,
+          userId: ch.userId,
+          yppStatus: 'OptedOut',
+          shouldBeIngested: false,
+          lastActedAt: new Date(),
+        },
+        'ReauthorizationRequired'
+      )
+      if (!optedOutChannel) {
+        this.logger.info(`Channel '${ch.id}' has been re-authorized meanwhile, it's not opted out from YPP program`)
+      }
+    }
+  }
+
   /**
    * @returns updated channels
    */
   private async performChannelsIngestion(): Promise<YtChannel[]> {
+    await this.optOutUnreauthorizedChannels()
+
     // get all channels that need to be ingested
     const channelsWithSyncEnabled = async () =>
-      await this.dynamodbService.repo.channels.scan({}, (scan) =>
-        scan
-          .filter('yppStatus')
-          .in(['Unverified', ...verifiedVariants])
-          .where('shouldBeIngested')
-          .eq(true)
-          .and()
-          .where('allowOperatorIngestion')
-          .eq(true)
-          .and()
+      (await this.dynamodbService.repo.channels.getByYppStatus(['Unverified', ...verifiedVariants])).filter(
+        (ch) =>
+          ch.shouldBeIngested === true &&
+          ch.allowOperatorIngestion === true &&
           // * Unauthorized channels add by infra operator are exempted from periodic
           // * ingestion as we don't have access to their access/refresh tokens
-          .where('performUnauthorizedSync')
-          .eq(false)
+          ch.performUnauthorizedSync === false
       )
 
     // updated channel objects with uptodate info
@@ -109,10 +396,12 @@ export class YoutubePollingService {
               id: ch.userId,
               accessToken: ch.userAccessToken,
               refreshToken: ch.userRefreshToken,
+              accessTokenExpiry: ch.userAccessTokenExpiry,
             })
 
-            // ensure that Ypp collaborator member is still set as channel's collaborator
-            const isCollaboratorSet = await this.joystreamClient.doesChannelHaveCollaborator(ch.joystreamChannelId)
+            // ensure that any of Ypp collaborator members is still set as channel's collaborator
+            const collaboratorIds = await this.joystreamClient.channelCollaboratorIds(ch.joystreamChannelId)
+            const isCollaboratorSet = collaboratorIds.length > 0
             if (!isCollaboratorSet) {
               this.logger.warn(
                 `Joystream Channel ${ch.joystreamChannelId} has either not set or revoked Ypp collaborator member ` +
@@ -126,23 +415,51 @@ export class YoutubePollingService {
               }
             }
 
+            const channelWithUptodateInfo: YtChannel = {
+              ...ch,
+              title: uptodateChannel.title,
+              description: uptodateChannel.description,
+              thumbnails: uptodateChannel.thumbnails,
+              bannerImageUrl: uptodateChannel.bannerImageUrl,
+              statistics: uptodateChannel.statistics,
+              // keep the access token (if) refreshed by the client
+              ...(uptodateChannel.userAccessTokenExpiry && {
+                userAccessToken: uptodateChannel.userAccessToken,
+                userAccessTokenExpiry: uptodateChannel.userAccessTokenExpiry,
+              }),
+            }
+
+            // Push channel's profile to the Joystream channel if it changed since the last sync
+            if (ch.syncChannelProfile && !_.isEqual(ch.lastSyncedProfile, YtChannel.profile(channelWithUptodateInfo))) {
+              return await this.syncChannelProfile(channelWithUptodateInfo)
+            }
+
             // Update the current channel record if it changed
-            if (!_.isEqual(ch.statistics, uptodateChannel.statistics)) {
-              return { ...ch, statistics: uptodateChannel.statistics }
+            if (!_.isEqual(ch, channelWithUptodateInfo)) {
+              return channelWithUptodateInfo
             }
           } catch (err: unknown) {
-            // if app permission is revoked by user from Google account then set `shouldBeIngested` to false & OptOut channel from
-            // Ypp program,  because then trying to fetch user channel will throw error with code 400 and 'invalid_grant' message
+            // if app permission is revoked by user from Google account (or the grant has been invalidated, e.g. by the
+            // password change), trying to fetch user channel will throw error with code 400 and 'invalid_grant' message,
+            // then the channel is required to be re-authorized by its owner (within the grace period) to stay in Ypp program
             if (err instanceof GaxiosError && err.code === '400' && err.response?.data?.error === 'invalid_grant') {
               this.logger.warn(
-                `Opting out '${ch.id}' from YPP program as their owner has revoked the permissions from Google settings`
+                `Channel '${ch.id}' requires re-authorization as their owner has revoked the permissions from ` +
+                  `Google settings. Channel will be opted out from YPP program unless re-authorized in time.`
               )
-              return {
-                ...ch,
-                yppStatus: 'OptedOut',
-                shouldBeIngested: false,
-                lastActedAt: new Date(),
-              }
+              // only the re-authorization attributes are updated, if the channel's status hasn't changed meanwhile
+              await this.dynamodbService.repo.channels.saveIfYppStatus(
+                {
+                  id: ch.id,
+                  userId: ch.userId,
+                  yppStatus: 'ReauthorizationRequired',
+                  // keep the earliest re-authorization request (if the channel hasn't re-authorized since then)
+                  yppStatusBeforeReauthorization: ch.yppStatusBeforeReauthorization || ch.yppStatus,
+                  reauthorizationRequiredAt: ch.reauthorizationRequiredAt || new Date(),
+                },
+                ch.yppStatus
+              )
+              return
               // ! Although type of `err.code` is string, the api api response returns it as number.
             } else if (
               err instanceof GaxiosError &&
@@ -185,29 +502,111 @@ export class YoutubePollingService {
     return channelsWithSyncEnabled()
   }
 
+  /**
+   * Updates the Joystream channel's title & description, and uploads the new avatar & cover photo
+   * (if changed) using the collaborator member, which requires `UpdateChannelMetadata` and
+   * `ManageNonVideoChannelAssets` permissions.
+   * @returns channel with updated `lastSyncedProfile` (unchanged if the sync failed)
+   */
+  private async syncChannelProfile(channel: YtChannel): Promise<YtChannel> {
+    try {
+      const collaboratorIds = await this.joystreamClient.channelCollaboratorIds(channel.joystreamChannelId, [
+        'UpdateChannelMetadata',
+        'ManageNonVideoChannelAssets',
+      ])
+      if (!collaboratorIds.length) {
+        this.logger.warn(`Collaborator member is not allowed to update the profile of Joystream channel`, {
+          channelId: channel.joystreamChannelId,
+        })
+        return channel
+      }
+
+      const profile = YtChannel.profile(channel)
+      const hasAvatarChanged = !!profile.avatarUrl && profile.avatarUrl !== channel.lastSyncedProfile?.avatarUrl
+      const hasBannerChanged = !!profile.bannerUrl && profile.bannerUrl !== channel.lastSyncedProfile?.bannerUrl
+
+      // images are downloaded once, so that the hashed and the uploaded image data are identical
+      const avatarData = hasAvatarChanged ? await getImageData(profile.avatarUrl) : undefined
+      const bannerData = hasBannerChanged ? await getImageData(profile.bannerUrl) : undefined
+
+      const assetIds = await this.joystreamClient.updateChannelProfile(channel, {
+        avatarPhoto: avatarData ? await computeFileHashAndSize(Readable.from(avatarData)) : undefined,
+        coverPhoto: bannerData ? await computeFileHashAndSize(Readable.from(bannerData)) : undefined,
+      })
+
+      await this.storageNodeApi.uploadChannelAssets({
+        avatarPhoto:
+          assetIds.avatarPhoto && avatarData ? { dataObjectId: assetIds.avatarPhoto, data: avatarData } : undefined,
+        coverPhoto:
+          assetIds.coverPhoto && bannerData ? { dataObjectId: assetIds.coverPhoto, data: bannerData } : undefined,
+      })
+
+      this.logger.info(`Synced channel profile to Joystream channel`, { channelId: channel.joystreamChannelId })
+      return { ...channel, lastSyncedProfile: profile }
+    } catch (err) {
+      this.logger.error('Failed to sync channel profile', { err, channelId: channel.joystreamChannelId })
+      return channel
+    }
+  }
+
   public async performVideosIngestion(channel: YtChannel) {
     try {
-      const historicalVideosCountLimit = YtChannel.videoCap(channel)
+      const historicalVideosCountLimit = this.channelLimitsPolicy.videoCap(channel)
 
       // get iDs of all sync-able videos within the channel limits
-      const videosIds = await this.youtubeApi.ytdlpClient.getVideos(channel, historicalVideosCountLimit)
+      const videosIds = await this.youtubeApi.ytdlpClient.getVideos(
+        channel,
+        historicalVideosCountLimit,
+        undefined,
+        channel.syncLiveStreamReplays ? ['videos', 'shorts', 'streams'] : undefined
+      )
 
       // get all video Ids that are not yet being tracked
       let untrackedVideosIds = await this.getUntrackedVideosIds(channel, videosIds)
 
       // if size limit has reached, don't track new historical videos
-      if (YtChannel.hasSizeLimitReached(channel)) {
+      if (this.channelLimitsPolicy.hasSizeLimitReached(channel)) {
         untrackedVideosIds = untrackedVideosIds.filter((v) => v.publishedAt >= channel.createdAt)
       }
 
-      //  get all videos that are not yet being tracked
-      const untrackedVideos = await this.youtubeApi.getVideos(
-        channel,
-        untrackedVideosIds.map((v) => v.id)
+      // don't track the videos filtered out by the channel's sync filters based on the known attributes
+      // (so that they are tracked later if the filters change), before fetching the videos details
+      untrackedVideosIds = untrackedVideosIds.filter(({ publishedAt, type }) =>
+        SyncUtils.matchesSyncFilters({ publishedAt: publishedAt.toISOString(), isShort: type === 'shorts' }, channel)
       )
+      const shortsIds = new Set(untrackedVideosIds.filter((v) => v.type === 'shorts').map((v) => v.id))
+
+      //  get all videos that are not yet being tracked
+      const untrackedVideos = (
+        await this.getVideos(
+          channel,
+          untrackedVideosIds.map((v) => v.id)
+        )
+      ).map((v) => ({ ...v, isShort: shortsIds.has(v.id) }))
+
+      // videos filtered out by their details (title or duration) are tracked in `Filtered`
+      // state, so that their details aren't re-fetched on every polling cycle
+      for (const video of untrackedVideos) {
+        if (video.state === 'New' && !SyncUtils.matchesSyncFilters(video, channel)) {
+          video.state = 'Filtered'
+        }
+      }
 
       // save all new videos to DB including
       await this.dynamodbService.repo.videos.upsertAll(untrackedVideos)
+
+      // start syncing the live-streams whose replays have become available
+      await this.ingestAvailableVods(channel)
+
+      // propagate changes of already synced videos (metadata updates, deletions & privacy changes)
+      if (this.pollingConfig?.reconcileSyncedVideos !== false) {
+        await this.reconcileSyncedVideos(channel)
+      }
+
+      // track channel's playlists & assign playlist IDs to the videos
+      if (this.pollingConfig?.ingestPlaylists !== false) {
+        await this.performPlaylistsIngestion(channel)
+      }
     } catch (err) {
       if (err instanceof YoutubeApiError && err.code === ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED) {
         this.logger.info('Youtube quota limit exceeded, skipping polling for now.')
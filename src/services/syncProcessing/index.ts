@@ -1,56 +1,124 @@
-import { FlowJob, Job } from 'bullmq'
-import IORedis from 'ioredis'
+import { FlowJob, Job, JobNode, JobType } from 'bullmq'
 import _ from 'lodash'
 import sleep from 'sleep-promise'
 import { Logger } from 'winston'
-import { DynamodbService } from '../../repository'
+import { IDynamodbService } from '../../repository'
 import { ReadonlyConfig } from '../../types'
-import { ChannelSyncStatus, YtChannel, YtVideo } from '../../types/youtube'
+import { ChannelSyncStatus, VideoProcessingStage, YtChannel, YtVideo } from '../../types/youtube'
 import { LoggingService } from '../logging'
 import { QueryNodeApi } from '../query-node/api'
 import { JoystreamClient } from '../runtime/client'
 import { IYoutubeApi } from '../youtube/api'
+import { ChannelLimitsPolicy } from './ChannelLimitsPolicy'
 import { ContentCreationService } from './ContentCreationService'
 import { ContentDownloadService } from './ContentDownloadService'
 import { ContentMetadataService } from './ContentMetadataService'
+import { ContentThumbnailService } from './ContentThumbnailService'
+import { ContentTranscodeService } from './ContentTranscodeService'
+import { ContentUpdateService } from './ContentUpdateService'
 import { ContentUploadService } from './ContentUploadService'
+import { DiskSpaceManager } from './DiskSpaceManager'
 import { JobsFlowManager } from './PriorityQueue'
 import { SyncUtils } from './utils'
 
+type RetryPolicies = NonNullable<NonNullable<ReadonlyConfig['sync']['limits']>['retryPolicies']>
+type RetryPolicy = NonNullable<RetryPolicies['download']>
+
+// Job flow of the video can't be removed as it's being processed (one of its jobs is locked by the worker)
+export class JobFlowLockedError extends Error {}
+
 export class ContentProcessingService {
-  private readonly QUEUE_NAME_PREFIXES = ['Upload', 'Creation', 'Metadata', 'Download'] as const
+  private readonly QUEUE_NAME_PREFIXES = ['Upload', 'Creation', 'Metadata', 'Transcode', 'Download', 'Update'] as const
+  private readonly DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, backoff: { type: 'exponential', delay: 60000 } }
+  private readonly DEFAULT_MAX_VIDEO_FAILURES = 5
+  private readonly UNFINISHED_JOB_STATES: JobType[] = [
+    'active',
+    'waiting',
+    'delayed',
+    'prioritized',
+    'waiting-children',
+  ]
 
   private jobsManager: JobsFlowManager
   private logger: Logger
   private contentDownloadService: ContentDownloadService
+  private contentTranscodeService: ContentTranscodeService
   private contentMetadataService: ContentMetadataService
+  private contentThumbnailService: ContentThumbnailService
   private contentCreationService: ContentCreationService
   private contentUploadService: ContentUploadService
+  private contentUpdateService: ContentUpdateService
+  private diskSpaceManager: DiskSpaceManager
 
   constructor(
     private config: Required<ReadonlyConfig['sync']> & ReadonlyConfig['endpoints'],
     logging: LoggingService,
-    private dynamodbService: DynamodbService,
+    private dynamodbService: IDynamodbService,
     youtubeApi: IYoutubeApi,
     private joystreamClient: JoystreamClient,
-    queryNodeApi: QueryNodeApi
+    queryNodeApi: QueryNodeApi,
+    private channelLimitsPolicy: ChannelLimitsPolicy
   ) {
     this.logger = logging.createLogger('ContentProcessingService')
     this.jobsManager = new JobsFlowManager(this.config.redis)
 
-    this.contentDownloadService = new ContentDownloadService(config, logging, this.dynamodbService, youtubeApi)
-    this.contentMetadataService = new ContentMetadataService(logging)
-    this.contentCreationService = new ContentCreationService(logging, this.dynamodbService, this.joystreamClient)
-    this.contentUploadService = new ContentUploadService(logging, this.dynamodbService, queryNodeApi)
+    this.diskSpaceManager = new DiskSpaceManager(
+      { downloadsDir: config.downloadsDir, storage: config.limits.storage },
+      logging,
+      this.dynamodbService,
+      (videoId) => this.removeJobFlow(videoId)
+    )
+    this.contentThumbnailService = new ContentThumbnailService(config.downloadsDir, logging, this.diskSpaceManager)
+    this.contentDownloadService = new ContentDownloadService(
+      config,
+      logging,
+      this.dynamodbService,
+      youtubeApi,
+      this.diskSpaceManager,
+      this.contentThumbnailService,
+      this.channelLimitsPolicy
+    )
+    this.contentTranscodeService = new ContentTranscodeService(config.transcoding, logging, this.diskSpaceManager)
+    this.contentMetadataService = new ContentMetadataService(logging, this.contentThumbnailService)
+    this.contentCreationService = new ContentCreationService(
+      logging,
+      this.dynamodbService,
+      this.joystreamClient,
+      config.limits.createVideoTxBatchSize
+    )
+    this.contentUploadService = new ContentUploadService(
+      logging,
+      this.dynamodbService,
+      queryNodeApi,
+      this.contentThumbnailService
+    )
+    this.contentUpdateService = new ContentUpdateService(
+      logging,
+      this.dynamodbService,
+      this.joystreamClient,
+      queryNodeApi,
+      this.contentThumbnailService
+    )
 
     // create job queues
 
-    const { maxConcurrentDownloads, maxConcurrentUploads, createVideoTxBatchSize } = this.config.limits
+    const { maxConcurrentDownloads, maxConcurrentTranscodes, maxConcurrentUploads, createVideoTxBatchSize } =
+      this.config.limits
+    const onJobFailed = this.handleFailedJob.bind(this)
     this.jobsManager.createJobQueue({
       name: 'DownloadQueue',
       processorType: 'concurrent',
       concurrencyOrBatchSize: maxConcurrentDownloads,
       processorInstance: this.contentDownloadService,
+      onJobFailed,
+    })
+
+    this.jobsManager.createJobQueue({
+      name: 'TranscodeQueue',
+      processorType: 'concurrent',
+      concurrencyOrBatchSize: maxConcurrentTranscodes || 1,
+      processorInstance: this.contentTranscodeService,
+      onJobFailed,
     })
 
     this.jobsManager.createJobQueue({
@@ -58,13 +126,16 @@ export class ContentProcessingService {
       processorType: 'concurrent',
       concurrencyOrBatchSize: maxConcurrentDownloads,
       processorInstance: this.contentMetadataService,
+      onJobFailed,
     })
 
     this.jobsManager.createJobQueue({
       name: 'CreationQueue',
       processorType: 'batch',
-      concurrencyOrBatchSize: createVideoTxBatchSize,
+      // each collaborator member (controller account) submits its own batch
+      concurrencyOrBatchSize: createVideoTxBatchSize * this.joystreamClient.collaboratorsCount,
       processorInstance: this.contentCreationService,
+      onJobFailed,
     })
 
     this.jobsManager.createJobQueue({
@@ -72,6 +143,15 @@ export class ContentProcessingService {
       processorType: 'concurrent',
       concurrencyOrBatchSize: maxConcurrentUploads,
       processorInstance: this.contentUploadService,
+      onJobFailed,
+    })
+
+    this.jobsManager.createJobQueue({
+      name: 'UpdateQueue',
+      processorType: 'concurrent',
+      concurrencyOrBatchSize: maxConcurrentUploads,
+      processorInstance: this.contentUpdateService,
+      onJobFailed,
     })
 
     // log starting and completed events for each job
@@ -84,16 +164,30 @@ export class ContentProcessingService {
   async start(interval: number) {
     this.logger.info(`Starting content processing service.`)
 
-    // Clean up queue state on startup from redis. This is being done to avoid having
-    // inconsistent state between queue (redis) and dynamodb (which is persistent storage).
-    const { host, port } = this.config.redis
-    const connection = new IORedis(port, host, { maxRetriesPerRequest: null })
-    await connection.flushall()
+    // Resolve already downloaded videos & remove the partial files left by the interrupted downloads
+    await this.diskSpaceManager.reconcile()
+    this.logger.verbose(`Resolved already downloaded video assets in local storage`, {
+      resolvedDownloads: [...SyncUtils.downloadedVideoFilePaths.keys()],
+      usedSpace: this.diskSpaceManager.usedSpace,
+    })
 
     await this.contentDownloadService.start()
+    await this.contentTranscodeService.start()
     await this.contentMetadataService.start()
     await this.contentCreationService.start()
     await this.contentUploadService.start()
+    await this.contentUpdateService.start()
+
+    // Queue state (redis) isn't discarded on restart, instead the job flows that survived
+    // the restart are reconciled with the videos state in the database (persistent storage).
+    const removedQueues = await this.jobsManager.removeDefaultPrefixQueues()
+    if (removedQueues.length) {
+      this.logger.info(`Removed job queues left under the default Redis keys prefix.`, { removedQueues })
+    }
+    await this.reconcileJobFlows()
+
+    // workers start processing the jobs only after the job flows have been reconciled
+    this.jobsManager.startJobQueues()
 
     // start video processing service
     setTimeout(async () => this.processVideosWithInterval(interval), 0)
@@ -102,25 +196,88 @@ export class ContentProcessingService {
   private async processVideosWithInterval(processingIntervalMinutes: number) {
     const sleepInterval = processingIntervalMinutes * 60 * 1000
     while (true) {
-      this.logger.info(`Content processing service paused for ${processingIntervalMinutes} minute(s).`)
-      await sleep(sleepInterval)
       try {
         this.logger.info(`Resume service....`)
-        // process unsynced videos
+        // process unsynced videos (the missing job flows are rebuilt from the database state)
         await this.prepareVideosForProcessing()
 
+        // propagate metadata changes of already synced videos
+        await this.prepareVideosForMetadataUpdate()
+
         // recalculate jobs priority in each queue
-        await Promise.all(this.jobsManager.getJobQueues().map((q) => q.recalculateJobsPriority(this.dynamodbService)))
+        await Promise.all(
+          this.jobsManager
+            .getJobQueues()
+            .map((q) => q.recalculateJobsPriority(this.dynamodbService, this.channelLimitsPolicy))
+        )
       } catch (err) {
         this.logger.error(`Critical content processing error`, { err })
       }
+      this.logger.info(`Content processing service paused for ${processingIntervalMinutes} minute(s).`)
+      await sleep(sleepInterval)
     }
   }
 
+  /**
+   * Reconciles the unfinished job flows persisted in Redis with the state of the videos in the database.
+   * Flows of the videos that no longer need to be processed, or that contain stages which don't match
+   * the current video state, are removed, so that they are rebuilt from the database state. The remaining
+   * flows are kept as they are (including their progress, delayed jobs & attempts counters).
+   */
+  private async reconcileJobFlows() {
+    let [kept, removed] = [0, 0]
+
+    // Upload & Update jobs are the root jobs of the flows
+    for (const queueName of ['UploadQueue', 'UpdateQueue']) {
+      const rootJobs = await this.jobsManager.getJobQueue(queueName).queue.getJobs(this.UNFINISHED_JOB_STATES)
+
+      for (const job of rootJobs) {
+        if (!job.id) continue
+
+        const video = await this.dynamodbService.videos.get(job.data.channelId, job.data.id)
+        const flow = await this.jobsManager.getFlow(queueName, job.id)
+        if (video && flow && this.isFlowConsistent(video, flow)) {
+          kept++
+          continue
+        }
+
+        try {
+          await job.remove()
+          removed++
+        } catch (err) {
+          // Job flow containing active (locked) job can't be removed
+          this.logger.warn(`Failed to remove inconsistent job flow`, { videoId: job.id, err })
+        }
+      }
+    }
+
+    this.logger.info(`Reconciled job flows with the videos state.`, { kept, removed })
+  }
+
+  /**
+   * Flow is consistent with the video state if all of its unfinished stages are
+   * also part of the flow that would be created for the video in current state
+   */
+  private isFlowConsistent(video: YtVideo, flow: JobNode): boolean {
+    const isPendingSync = ['New', 'VideoCreationFailed', 'VideoCreated', 'UploadFailed'].includes(video.state)
+    const isPendingUpdate = video.state === 'MetadataUpdatePending' || video.state === 'MetadataUpdateFailed'
+    if (!isPendingSync && !isPendingUpdate) {
+      return false
+    }
+
+    const stages = (node: JobNode | FlowJob): string[] => [
+      'job' in node ? node.job.queueName : node.queueName,
+      ...(node.children || []).flatMap((child: JobNode | FlowJob) => stages(child)),
+    ]
+    const expectedStages = stages(this.createFlow(video, SyncUtils.DEFAULT_SUDO_PRIORITY))
+    return stages(flow).every((stage) => expectedStages.includes(stage))
+  }
+
   private async prepareVideosForProcessing() {
     const allUnsyncedVideos = await this.dynamodbService.videos.getAllUnsyncedVideos()
 
-    if (this.config.limits.storage - SyncUtils.usedSpace < 0) {
+    await this.diskSpaceManager.reconcile()
+    if (this.diskSpaceManager.freeSpace <= 0) {
       this.logger.warn(`Local disk space is fully used. The processing of new videos will be postponed.`)
     }
 
@@ -132,17 +289,12 @@ export class ContentProcessingService {
     await Promise.all(
       allUnsyncedVideosByChannelId.map(async ({ channelId, unsyncedVideos }) => {
         const channel = await this.dynamodbService.channels.getById(channelId)
-        const totalVideos = YtChannel.totalVideos(channel)
+        const totalVideos = this.channelLimitsPolicy.totalVideos(channel)
         const percentageOfCreatorBacklogNotSynched = (unsyncedVideos.length * 100) / totalVideos
 
         for (const video of unsyncedVideos) {
-          let sudoPriority = SyncUtils.DEFAULT_SUDO_PRIORITY
-          if (new Date(video.publishedAt) > channel.createdAt && video.duration > 300) {
-            sudoPriority += 50
-          }
-
           const priority = SyncUtils.calculateJobPriority(
-            sudoPriority,
+            SyncUtils.sudoPriority(video, channel),
             percentageOfCreatorBacklogNotSynched,
             Date.parse(video.publishedAt)
           )
@@ -161,6 +313,23 @@ export class ContentProcessingService {
     )
   }
 
+  private async prepareVideosForMetadataUpdate() {
+    const videosPendingUpdate = await this.dynamodbService.videos.getVideosPendingMetadataUpdate()
+
+    for (const video of videosPendingUpdate) {
+      const channel = await this.dynamodbService.channels.getById(video.channelId)
+      const priority = SyncUtils.calculateJobPriority(
+        video.sudoPriority ?? SyncUtils.DEFAULT_SUDO_PRIORITY,
+        0,
+        Date.parse(video.publishedAt)
+      )
+
+      if (YtChannel.isSyncEnabled(channel) && !(await this.isActiveJobFlow(video.id))) {
+        await this.jobsManager.addFlowJob(this.createFlow(video, priority))
+      }
+    }
+  }
+
   /**
    * Since polling service interval can be arbitrary greater than the video
    * processing service interval, we need to check that video can be created
@@ -168,10 +337,12 @@ export class ContentProcessingService {
    */
   private async ensureVideoCanBeProcessed(video: YtVideo, channel: YtChannel): Promise<boolean> {
     const isSyncEnabled = YtChannel.isSyncEnabled(channel)
-    const sizeLimitReached = YtChannel.hasSizeLimitReached(channel)
-    const isCollaboratorSet = await this.joystreamClient.doesChannelHaveCollaborator(channel.joystreamChannelId)
+    // videos tracked before the sync filters were changed (unless already created on-chain) are filtered out too
+    const isFilteredOut = !SyncUtils.matchesSyncFilters(video, channel) && video.joystreamVideo === undefined
+    const sizeLimitReached = this.channelLimitsPolicy.hasSizeLimitReached(channel)
+    const isCollaboratorSet = (await this.joystreamClient.channelCollaboratorIds(channel.joystreamChannelId)).length > 0
     const isHistoricalVideo = new Date(video.publishedAt) < channel.createdAt
-    const freeSpace = this.config.limits.storage - SyncUtils.usedSpace
+    const { freeSpace } = this.diskSpaceManager
 
     // Consider video for processing if it has been created on-chain, and only needs
     // to be uploaded on the storage network. Otherwise postpone the video creation.
@@ -179,17 +350,51 @@ export class ContentProcessingService {
 
     return (
       isSyncEnabled &&
+      !isFilteredOut &&
       isCollaboratorSet &&
       (!isHistoricalVideo || (isHistoricalVideo && !sizeLimitReached)) &&
       spaceCondition
     )
   }
 
+  /**
+   * Records the failure of the video processing (once the failed job has exhausted all of its attempts),
+   * and moves the video to `DeadLetter` state if its processing has failed too many times.
+   */
+  private async handleFailedJob(job: Job<YtVideo>, err: Error) {
+    const video = await this.dynamodbService.videos.get(job.data.channelId, job.data.id)
+
+    // Unavailable & quarantined (duplicate) videos are skipped from syncing anyway
+    if (!video || video.state === 'VideoUnavailable' || video.state === 'Duplicate') {
+      return
+    }
+
+    const stage = job.queueName.replace(/Queue$/, '') as VideoProcessingStage
+    const failuresCount = (video.failuresCount || 0) + 1
+    const maxVideoFailures = this.config.limits.maxVideoFailures || this.DEFAULT_MAX_VIDEO_FAILURES
+    const isDeadLettered = failuresCount >= maxVideoFailures
+
+    await this.dynamodbService.videos.save({
+      ...video,
+      failuresCount,
+      lastFailure: { stage, message: err.message },
+      ...(isDeadLettered ? { state: 'DeadLetter' } : {}),
+    })
+
+    if (isDeadLettered) {
+      this.logger.error(`Video processing failed ${failuresCount} times. Moved video to dead-letter state.`, {
+        videoId: video.id,
+        stage,
+        err: err.message,
+      })
+    }
+  }
+
   private async isActiveJobFlow(videoId: string): Promise<boolean> {
     for (const jobType of this.QUEUE_NAME_PREFIXES) {
       const jobQueue = this.jobsManager.getJobQueue(`${jobType}Queue`)
       const state = await (await Job.fromId(jobQueue.queue, videoId))?.getState()
-      if (state === 'active' || state === 'delayed' || state === 'prioritized' || state === 'waiting-children') {
+      if (state && (this.UNFINISHED_JOB_STATES as string[]).includes(state)) {
         return true
       }
     }
@@ -198,22 +403,31 @@ export class ContentProcessingService {
 
   private createFlow(video: YtVideo, priority: number): FlowJob {
     const jobUnit = (jobType: typeof this.QUEUE_NAME_PREFIXES[number]) => {
+      const retryPolicy = this.config.limits.retryPolicies?.[_.lowerFirst(jobType) as keyof RetryPolicies]
+      const { attempts, backoff } = retryPolicy || this.DEFAULT_RETRY_POLICY
       return {
         name: 'flowJob',
         data: video,
         queueName: `${jobType}Queue`,
-        opts: { priority, failParentOnFailure: true, jobId: video.id },
+        opts: { priority, failParentOnFailure: true, jobId: video.id, attempts, backoff },
       }
     }
 
-    if (video.state === 'VideoCreated' || video.state === 'UploadFailed') {
+    // Downloaded video is transcoded (if enabled) before its metadata is extracted & the video is uploaded
+    const downloadUnit = (): FlowJob =>
+      this.config.transcoding.enable
+        ? { ...jobUnit('Transcode'), children: [{ ...jobUnit('Download') }] }
+        : { ...jobUnit('Download') }
+
+    if (video.state === 'MetadataUpdatePending' || video.state === 'MetadataUpdateFailed') {
+      // Video has already been synced, so only its metadata needs to be updated
+      return {
+        ...jobUnit('Update'),
+      }
+    } else if (video.state === 'VideoCreated' || video.state === 'UploadFailed') {
       return {
         ...jobUnit('Upload'),
-        children: [
-          {
-            ...jobUnit('Download'),
-          },
-        ],
+        children: [downloadUnit()],
       }
     } else {
       // Otherwise video state is either 'New' or 'VideoCreationFailed', so return full job flow
@@ -225,11 +439,7 @@ export class ContentProcessingService {
             children: [
               {
                 ...jobUnit('Metadata'),
-                children: [
-                  {
-                    ...jobUnit('Download'),
-                  },
-                ],
+                children: [downloadUnit()],
               },
             ],
           },
@@ -238,6 +448,54 @@ export class ContentProcessingService {
     }
   }
 
+  /**
+   * Removes the job flow of the video (e.g. when the video is requeued from another state by the
+   * operator), so that it's rebuilt from the video state. Flow that is being processed can't be removed
+   * (`JobFlowLockedError` is thrown), the removal can be retried once its currently processed job finishes.
+   */
+  public async removeJobFlow(videoId: string): Promise<void> {
+    // Upload & Update jobs are the root jobs of the flows
+    for (const queueName of ['UploadQueue', 'UpdateQueue']) {
+      const job = await Job.fromId(this.jobsManager.getJobQueue(queueName).queue, videoId)
+      try {
+        await job?.remove()
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('locked')) {
+          throw new JobFlowLockedError(
+            `Job flow of the video ${videoId} is being processed, retry after its current job finishes.`
+          )
+        }
+        throw err
+      }
+    }
+  }
+
+  /**
+   * Links the video quarantined as duplicate to the Joystream video already created by the app
+   */
+  public async linkDuplicateVideo(video: YtVideo): Promise<YtVideo> {
+    return this.contentCreationService.linkDuplicateVideo(video)
+  }
+
+  /**
+   * Propagates the sudo priority of the video (set by the operator) to its unfinished
+   * jobs, and recalculates the priority of the jobs in each queue accordingly
+   */
+  public async updateJobsSudoPriority(video: YtVideo): Promise<void> {
+    for (const jobType of this.QUEUE_NAME_PREFIXES) {
+      const job = await Job.fromId(this.jobsManager.getJobQueue(`${jobType}Queue`).queue, video.id)
+      const state = await job?.getState()
+      if (job && state && (this.UNFINISHED_JOB_STATES as string[]).includes(state)) {
+        await job.updateData({ ...job.data, sudoPriority: video.sudoPriority })
+      }
+    }
+    await Promise.all(
+      this.jobsManager
+        .getJobQueues()
+        .map((q) => q.recalculateJobsPriority(this.dynamodbService, this.channelLimitsPolicy))
+    )
+  }
+
   /**
    * Public Getters
    */
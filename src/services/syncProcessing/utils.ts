@@ -1,27 +1,19 @@
 import fs from 'fs'
 import fsPromises from 'fs/promises'
+import path from 'path'
+import { ChannelSyncFilters, YtChannel, YtVideo } from '../../types/youtube'
 import { VideoMetadataAndHash } from './ContentMetadataService'
 
 export class SyncUtils {
   private static readonly MAX_BULLMQ_PRIORITY = 2097152
-  private static readonly MAX_SUDO_PRIORITY = 100
+  static readonly MAX_SUDO_PRIORITY = 100
   static readonly DEFAULT_SUDO_PRIORITY = 10
   private static readonly OLDEST_PUBLISHED_DATE = 946684800 // Unix timestamp of year 2000
 
-  static readonly downloadedVideoFilePaths = new Map<string, string>()
-
-  private static downloadedVideosSizeSum = 0
-
   /**
-   * Utility methods track and manage the local disk space used by the downloaded video assets.
+   * Paths of the downloaded video files (the disk space used by the files is managed by `DiskSpaceManager`)
    */
-  static get usedSpace() {
-    return this.downloadedVideosSizeSum
-  }
-
-  static updateUsedStorageSize(size: number) {
-    this.downloadedVideosSizeSum += size
-  }
+  static readonly downloadedVideoFilePaths = new Map<string, string>()
 
   static setVideoFilePath(videoId: string, filePath: string) {
     this.downloadedVideoFilePaths.set(videoId, filePath)
@@ -40,16 +32,134 @@ export class SyncUtils {
     return fs.statSync(videoFilePath).size
   }
 
+  // Subtitles files are stored next to the video file, named as `<videoId>.<language>.vtt`
+  static subtitleFilePath(videoId: string, language: string): string {
+    const videoFilePath = this.expectedVideoFilePath(videoId)
+    return path.join(path.dirname(videoFilePath), `${videoId}.${language}.vtt`)
+  }
+
+  // Temporary output file of the video being transcoded, stored next to the video file
+  static transcodingFilePath(videoId: string, container: string): string {
+    const videoFilePath = this.expectedVideoFilePath(videoId)
+    return path.join(path.dirname(videoFilePath), `${videoId}.transcoding.${container}`)
+  }
+
+  /**
+   * Replaces the downloaded video file with its transcoded version (renamed to `<videoId>.<ext>`)
+   * @returns path of the new video file
+   */
+  static async replaceVideoFile(videoId: string, transcodedFilePath: string): Promise<string> {
+    const videoFilePath = this.expectedVideoFilePath(videoId)
+    const filePath = path.join(path.dirname(videoFilePath), `${videoId}${path.extname(transcodedFilePath)}`)
+
+    await fsPromises.unlink(videoFilePath)
+    await fsPromises.rename(transcodedFilePath, filePath)
+    this.setVideoFilePath(videoId, filePath)
+    return filePath
+  }
+
   static async removeVideoFile(videoId: string) {
-    const path = this.expectedVideoFilePath(videoId)
-    const size = this.fileSize(videoId)
-    await fsPromises.unlink(path)
+    const videoFilePath = this.expectedVideoFilePath(videoId)
+    await this.removeSidecarFiles(videoId)
+    await fsPromises.unlink(videoFilePath)
     this.downloadedVideoFilePaths.delete(videoId)
-    this.downloadedVideosSizeSum -= size
+  }
+
+  // Removes the subtitles & thumbnail files stored next to the video file
+  private static async removeSidecarFiles(videoId: string) {
+    const dir = path.dirname(this.expectedVideoFilePath(videoId))
+    const files = await fsPromises.readdir(dir)
+    for (const file of files) {
+      if (file.startsWith(`${videoId}.`) && (file.endsWith('.vtt') || file === `${videoId}.thumbnail.jpg`)) {
+        await fsPromises.unlink(path.join(dir, file))
+      }
+    }
+  }
+
+  /**
+   * @returns whether the video matches the sync filters of the channel. Filters of the video attributes
+   * that aren't known yet (e.g. duration of the video before fetching its details) are skipped.
+   */
+  static matchesSyncFilters(
+    video: Partial<Pick<YtVideo, 'title' | 'duration' | 'publishedAt' | 'isShort'>>,
+    channel: YtChannel
+  ): boolean {
+    const filters: ChannelSyncFilters = channel.syncFilters || {}
+    const publishedAt = video.publishedAt !== undefined ? new Date(video.publishedAt) : undefined
+    const { title, duration } = video
+
+    return !(
+      (filters.excludeShorts && video.isShort) ||
+      (duration !== undefined && filters.minDuration !== undefined && duration < filters.minDuration) ||
+      (duration !== undefined && filters.maxDuration !== undefined && duration > filters.maxDuration) ||
+      (title !== undefined &&
+        filters.titleIncludePattern &&
+        !this.matchesTitlePattern(title, filters.titleIncludePattern)) ||
+      (title !== undefined &&
+        filters.titleExcludePattern &&
+        this.matchesTitlePattern(title, filters.titleExcludePattern)) ||
+      (publishedAt && filters.publishedAfter && publishedAt < new Date(filters.publishedAfter)) ||
+      (publishedAt && filters.onlyNewVideos && publishedAt < new Date(channel.createdAt))
+    )
+  }
+
+  /**
+   * @returns whether the title contains any of the (case insensitive) comma-separated keywords of the pattern.
+   * Keywords can contain `*` (any characters) & `?` (single character) wildcards, which are matched without
+   * regular expressions (in O(title length * keyword length) time), as the patterns are user provided.
+   */
+  static matchesTitlePattern(title: string, pattern: string): boolean {
+    const text = title.toLowerCase()
+    return pattern
+      .toLowerCase()
+      .split(',')
+      .map((keyword) => keyword.trim())
+      .filter((keyword) => keyword.length > 0)
+      .some((keyword) => {
+        // keyword can occur anywhere in the title
+        const glob = `*${keyword}*`
+        let [t, g, starG, starT] = [0, 0, -1, 0]
+        while (t < text.length) {
+          if (g < glob.length && (glob[g] === '?' || glob[g] === text[t])) {
+            t++
+            g++
+          } else if (g < glob.length && glob[g] === '*') {
+            starG = g++
+            starT = t
+          } else if (starG !== -1) {
+            // backtrack to the last wildcard, letting it match one more character
+            g = starG + 1
+            t = ++starT
+          } else {
+            return false
+          }
+        }
+        while (glob[g] === '*') {
+          g++
+        }
+        return g === glob.length
+      })
   }
 
   static getSizeFromVideoMetadata(videoMetadata: VideoMetadataAndHash) {
-    return videoMetadata.mediaMetadata.size + videoMetadata.thumbnailHash.size
+    const subtitlesSize = (videoMetadata.subtitles || []).reduce((size, s) => size + s.hash.size, 0)
+    return videoMetadata.mediaMetadata.size + videoMetadata.thumbnailHash.size + subtitlesSize
+  }
+
+  /**
+   * @returns sudo priority of the video set by the operator, otherwise the default sudo priority
+   * (increased for the new videos of the channel that are longer than 5 minutes)
+   */
+  static sudoPriority(video: YtVideo, channel: YtChannel): number {
+    if (video.sudoPriority !== undefined) {
+      return video.sudoPriority
+    }
+
+    let sudoPriority = this.DEFAULT_SUDO_PRIORITY
+    if (new Date(video.publishedAt) > channel.createdAt && video.duration > 300) {
+      sudoPriority += 50
+    }
+    return sudoPriority
   }
 
   /**
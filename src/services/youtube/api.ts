@@ -2,7 +2,8 @@ import ffmpegInstaller from '@ffmpeg-installer/ffmpeg'
 import { MetricServiceClient } from '@google-cloud/monitoring'
 import { youtube_v3 } from '@googleapis/youtube'
 import { exec } from 'child_process'
-import { OAuth2Client } from 'google-auth-library'
+import fs from 'fs'
+import { Credentials, OAuth2Client } from 'google-auth-library'
 import { GetTokenResponse } from 'google-auth-library/build/src/auth/oauth2client'
 import { GaxiosError } from 'googleapis-common'
 import { parse, toSeconds } from 'iso8601-duration'
@@ -12,14 +13,27 @@ import { FetchError } from 'node-fetch'
 import path from 'path'
 import pkgDir from 'pkg-dir'
 import { promisify } from 'util'
+import { Logger } from 'winston'
 import ytdl from 'youtube-dl-exec'
-import { StatsRepository } from '../../repository'
+import { IDynamodbClient } from '../../repository'
 import { ReadonlyConfig, WithRequired, formattedJSON } from '../../types'
 import { ExitCodes, YoutubeApiError } from '../../types/errors'
-import { YtChannel, YtDlpFlatPlaylistOutput, YtUser, YtVideo } from '../../types/youtube'
+import {
+  DownloadedSubtitle,
+  Stats,
+  YtChannel,
+  YtDlpFlatPlaylistOutput,
+  YtPlaylist,
+  YtUser,
+  YtVideo,
+} from '../../types/youtube'
+import { LoggingService } from '../logging'
+import { youtubeOAuthClients } from './oauthClients'
+import { QuotaBudget, YoutubeQuotaLedger } from './quota'
 
 import Schema$Video = youtube_v3.Schema$Video
 import Schema$Channel = youtube_v3.Schema$Channel
+import Schema$Playlist = youtube_v3.Schema$Playlist
 
 export class YtDlpClient {
   private ytdlpPath: string
@@ -57,12 +71,17 @@ export class YtDlpClient {
           JSON.parse(stdout).entries.forEach((category: any) => {
             if (category.entries) {
               category.entries.forEach((video: any) => {
-                videos.push({ id: video.id, publishedAt: new Date(video.timestamp * 1000) /** Convert UNIX to date */ })
+                videos.push({
+                  id: video.id,
+                  publishedAt: new Date(video.timestamp * 1000) /** Convert UNIX to date */,
+                  type,
+                })
               })
             } else {
               videos.push({
                 id: category.id,
                 publishedAt: new Date(category.timestamp * 1000) /** Convert UNIX to date */,
+                type,
               })
             }
           })
@@ -90,15 +109,31 @@ export class YtDlpClient {
   }
 }
 
+export type DownloadFormatPolicy = NonNullable<ReadonlyConfig['sync']['downloadFormat']>['default']
+
+// Format policy used if no `sync.downloadFormat` config is provided
+export const DEFAULT_DOWNLOAD_FORMAT_POLICY: DownloadFormatPolicy = { maxHeight: 1080, containers: ['mp4', 'webm'] }
+
+export type UserCredentials = Pick<
+  YtUser,
+  'id' | 'accessToken' | 'refreshToken' | 'accessTokenExpiry' | 'oauthClientId'
+>
+
 export interface IYoutubeApi {
   ytdlpClient: YtDlpClient
-  getUserFromCode(code: string, youtubeRedirectUri: string): Promise<YtUser>
-  getChannel(user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>): Promise<YtChannel>
-  getVerifiedChannel(
-    user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>
-  ): Promise<{ channel: YtChannel; errors: YoutubeApiError[] }>
-  getVideos(channel: YtChannel, ids: string[]): Promise<YtVideo[]>
-  downloadVideo(videoUrl: string, outPath: string): ReturnType<typeof ytdl>
+  getUserFromCode(code: string, youtubeRedirectUri: string, clientId?: string): Promise<YtUser>
+  getSignupClientId(): Promise<string>
+  getTodaysQuotaUsage(): Promise<Stats[]>
+  getChannel(user: UserCredentials): Promise<YtChannel>
+  getVerifiedChannel(user: UserCredentials): Promise<{ channel: YtChannel; errors: YoutubeApiError[] }>
+  // Returns the sync-able videos with given IDs, or all the videos returned by Youtube if `unfiltered` is set
+  // (videos that can't be synced are returned in `VideoUnavailable` state)
+  getVideos(channel: YtChannel, ids: string[], unfiltered?: boolean): Promise<YtVideo[]>
+  getPlaylists(channel: YtChannel): Promise<Omit<YtPlaylist, 'videoIds'>[]>
+  getPlaylistVideoIds(channel: YtChannel, playlistId: string): Promise<string[]>
+  downloadVideo(videoUrl: string, outPath: string, formatPolicy?: DownloadFormatPolicy): ReturnType<typeof ytdl>
+  downloadSubtitles(videoUrl: string, outPath: string): Promise<DownloadedSubtitle[]>
+  estimateDownloadSize(videoUrl: string, formatPolicy?: DownloadFormatPolicy): Promise<number | undefined>
   getCreatorOnboardingRequirements(): ReadonlyConfig['creatorOnboardingRequirements']
 }
 
@@ -109,10 +144,20 @@ export interface IQuotaMonitoringClient {
 
 class YoutubeClient implements IYoutubeApi {
   private config: ReadonlyConfig
+  private logger: Logger
   readonly ytdlpClient: YtDlpClient
 
-  constructor(config: ReadonlyConfig) {
+  // OAuth clients of the users (channel owners) by the user ID, reused so that the refreshed access tokens are kept
+  private userAuthClients = new Map<string, OAuth2Client>()
+
+  constructor(
+    config: ReadonlyConfig,
+    private repo: Pick<IDynamodbClient, 'channels' | 'users'>,
+    private quotaLedger: YoutubeQuotaLedger,
+    logging: LoggingService
+  ) {
     this.config = config
+    this.logger = logging.createLogger('YoutubeClient')
     this.ytdlpClient = new YtDlpClient()
   }
 
@@ -120,29 +165,105 @@ class YoutubeClient implements IYoutubeApi {
     return this.config.creatorOnboardingRequirements
   }
 
-  private getAuth(youtubeRedirectUri?: string) {
+  /**
+   * @param clientId ID of the Youtube OAuth client to use (primary client if not provided)
+   */
+  private getAuth(youtubeRedirectUri?: string, clientId = this.config.youtube.clientId) {
+    const client = youtubeOAuthClients(this.config).find((c) => c.clientId === clientId)
+    if (!client) {
+      throw new Error(`Youtube OAuth client ${clientId} is not configured.`)
+    }
+
     return new OAuth2Client({
-      clientId: this.config.youtube.clientId,
-      clientSecret: this.config.youtube.clientSecret,
+      clientId: client.clientId,
+      clientSecret: client.clientSecret,
       redirectUri: youtubeRedirectUri,
     })
   }
 
-  private getYoutube(accessToken: string, refreshToken: string) {
-    const auth = this.getAuth()
+  /**
+   * @returns ID of the Youtube OAuth client the new users should authorize the app through, i.e.
+   * the client with the most remaining signup quota
+   */
+  async getSignupClientId(): Promise<string> {
+    return this.quotaLedger.clientWithMostRemainingQuota('signup')
+  }
+
+  /**
+   * @returns today's quota usage of each Youtube OAuth client
+   */
+  async getTodaysQuotaUsage(): Promise<Stats[]> {
+    return this.quotaLedger.todaysQuotaUsage()
+  }
+
+  /**
+   * @returns cached OAuth client of the user, which refreshes the expired access token (and persists it to the
+   * user & its channel). New client is created if the user has re-authorized the app (i.e. has new refresh token).
+   */
+  private getUserAuth(user: UserCredentials) {
+    const cachedAuth = this.userAuthClients.get(user.id)
+    if (cachedAuth && cachedAuth.credentials.refresh_token === user.refreshToken) {
+      return cachedAuth
+    }
+
+    const auth = this.getAuth(undefined, user.oauthClientId)
     auth.setCredentials({
-      access_token: accessToken,
-      refresh_token: refreshToken,
+      access_token: user.accessToken,
+      refresh_token: user.refreshToken,
+      expiry_date: user.accessTokenExpiry?.getTime(),
     })
-    return new youtube_v3.Youtube({ auth })
+    auth.on('tokens', (tokens) => this.persistRefreshedTokens(user.id, tokens))
+    this.userAuthClients.set(user.id, auth)
+    return auth
+  }
+
+  private getYoutube(user: UserCredentials) {
+    return new youtube_v3.Youtube({ auth: this.getUserAuth(user) })
+  }
+
+  private channelOwner(channel: YtChannel): UserCredentials {
+    return {
+      id: channel.userId,
+      accessToken: channel.userAccessToken,
+      refreshToken: channel.userRefreshToken,
+      accessTokenExpiry: channel.userAccessTokenExpiry,
+      oauthClientId: channel.oauthClientId,
+    }
+  }
+
+  private async persistRefreshedTokens(userId: string, { access_token, expiry_date }: Credentials) {
+    if (!access_token) {
+      return
+    }
+
+    const accessTokenExpiry = expiry_date ? new Date(expiry_date) : undefined
+    try {
+      // only the token attributes are updated, so that the concurrent changes of the records aren't overwritten
+      const user = await this.repo.users.get(userId)
+      if (user) {
+        await this.repo.users.save({ id: user.id, accessToken: access_token, accessTokenExpiry })
+      }
+      for (const channel of await this.repo.channels.getByUserId(userId)) {
+        await this.repo.channels.save({
+          id: channel.id,
+          userId: channel.userId,
+          userAccessToken: access_token,
+          userAccessTokenExpiry: accessTokenExpiry,
+        })
+      }
+      this.logger.debug(`Persisted refreshed access token of the user.`, { userId, accessTokenExpiry })
+    } catch (err) {
+      this.logger.error(`Failed to persist refreshed access token of the user.`, { userId, err })
+    }
   }
 
   private async getAccessToken(
     code: string,
-    youtubeRedirectUri: string
+    youtubeRedirectUri: string,
+    clientId?: string
   ): Promise<WithRequired<GetTokenResponse['tokens'], 'access_token' | 'refresh_token'>> {
     try {
-      const token = await this.getAuth(youtubeRedirectUri).getToken(code)
+      const token = await this.getAuth(youtubeRedirectUri, clientId).getToken(code)
       if (!token.tokens?.access_token) {
         throw new Error('Access token not found in token response.')
       }
@@ -160,10 +281,10 @@ class YoutubeClient implements IYoutubeApi {
     }
   }
 
-  async getUserFromCode(code: string, youtubeRedirectUri: string) {
-    const tokenResponse = await this.getAccessToken(code, youtubeRedirectUri)
+  async getUserFromCode(code: string, youtubeRedirectUri: string, clientId = this.config.youtube.clientId) {
+    const tokenResponse = await this.getAccessToken(code, youtubeRedirectUri, clientId)
 
-    const tokenInfo = await this.getAuth().getTokenInfo(tokenResponse.access_token)
+    const tokenInfo = await this.getAuth(undefined, clientId).getTokenInfo(tokenResponse.access_token)
 
     if (!tokenInfo.sub) {
       throw new Error(
@@ -183,20 +304,27 @@ class YoutubeClient implements IYoutubeApi {
       accessToken: tokenResponse.access_token,
       refreshToken: tokenResponse.refresh_token,
       authorizationCode: code,
+      oauthClientId: clientId,
       joystreamMemberId: undefined,
       createdAt: new Date(),
     }
     return user
   }
 
-  async getChannel(user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>) {
-    const yt = this.getYoutube(user.accessToken, user.refreshToken)
+  async getChannel(user: UserCredentials) {
+    return this.fetchChannel(user, 'sync')
+  }
+
+  private async fetchChannel(user: UserCredentials, budget: QuotaBudget) {
+    const yt = this.getYoutube(user)
 
-    const channelResponse = await yt.channels
-      .list({
-        part: ['snippet', 'contentDetails', 'statistics', 'brandingSettings'],
-        mine: true,
-      })
+    const channelResponse = await this.quotaLedger
+      .charge(budget, user.oauthClientId, 'channels.list', () =>
+        yt.channels.list({
+          part: ['snippet', 'contentDetails', 'statistics', 'brandingSettings'],
+          mine: true,
+        })
+      )
       .catch((err) => {
         if (err instanceof FetchError && err.code === 'ENOTFOUND') {
           throw new YoutubeApiError(ExitCodes.YoutubeApi.YOUTUBE_API_NOT_CONNECTED, err.message)
@@ -204,7 +332,16 @@ class YoutubeClient implements IYoutubeApi {
         throw err
       })
 
-    const [channel] = this.mapChannels(user, channelResponse.data.items ?? [])
+    // map the channel with the current (possibly refreshed) access token of the user
+    const { access_token: accessToken, expiry_date: expiryDate } = this.getUserAuth(user).credentials
+    const [channel] = this.mapChannels(
+      {
+        ...user,
+        accessToken: accessToken || user.accessToken,
+        accessTokenExpiry: expiryDate ? new Date(expiryDate) : user.accessTokenExpiry,
+      },
+      channelResponse.data.items ?? []
+    )
 
     // Ensure channel exists
     if (!channel) {
@@ -214,9 +351,7 @@ class YoutubeClient implements IYoutubeApi {
     return channel
   }
 
-  async getVerifiedChannel(
-    user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>
-  ): Promise<{ channel: YtChannel; errors: YoutubeApiError[] }> {
+  async getVerifiedChannel(user: UserCredentials): Promise<{ channel: YtChannel; errors: YoutubeApiError[] }> {
     const {
       minimumSubscribersCount,
       minimumVideosCount,
@@ -226,7 +361,7 @@ class YoutubeClient implements IYoutubeApi {
       monthsToConsider,
     } = this.config.creatorOnboardingRequirements
 
-    const channel = await this.getChannel(user)
+    const channel = await this.fetchChannel(user, 'signup')
     const errors: YoutubeApiError[] = []
     if (channel.statistics.subscriberCount < minimumSubscribersCount) {
       errors.push(
@@ -303,26 +438,143 @@ class YoutubeClient implements IYoutubeApi {
     return { channel, errors }
   }
 
-  async getVideos(channel: YtChannel, ids: string[]) {
-    const yt = this.getYoutube(channel.userAccessToken, channel.userRefreshToken)
+  async getVideos(channel: YtChannel, ids: string[], unfiltered?: boolean) {
+    const yt = this.getYoutube(this.channelOwner(channel))
     try {
-      return this.iterateVideos(yt, channel, ids)
+      const videos = await this.iterateVideos(yt, channel, ids)
+      return unfiltered ? videos : videos.filter((v) => v.state !== 'VideoUnavailable')
     } catch (error) {
       throw new Error(`Failed to fetch videos for channel ${channel.title}. Error: ${error}`)
     }
   }
 
-  async downloadVideo(videoUrl: string, outPath: string): ReturnType<typeof ytdl> {
+  async getPlaylists(channel: YtChannel) {
+    const yt = this.getYoutube(this.channelOwner(channel))
+    try {
+      return await this.iteratePlaylists(yt, channel)
+    } catch (error) {
+      if (error instanceof YoutubeApiError) {
+        throw error
+      }
+      throw new Error(`Failed to fetch playlists for channel ${channel.title}. Error: ${error}`)
+    }
+  }
+
+  async getPlaylistVideoIds(channel: YtChannel, playlistId: string) {
+    const yt = this.getYoutube(this.channelOwner(channel))
+    try {
+      return await this.iteratePlaylistVideoIds(yt, channel, playlistId)
+    } catch (error) {
+      if (error instanceof YoutubeApiError) {
+        throw error
+      }
+      throw new Error(`Failed to fetch videos of playlist ${playlistId}. Error: ${error}`)
+    }
+  }
+
+  async downloadVideo(
+    videoUrl: string,
+    outPath: string,
+    formatPolicy = DEFAULT_DOWNLOAD_FORMAT_POLICY
+  ): ReturnType<typeof ytdl> {
     const response = await ytdl(videoUrl, {
       noWarnings: true,
       printJson: true,
-      format: 'bv[height<=1080][ext=mp4]+ba[ext=m4a]/bv[height<=1080][ext=webm]+ba[ext=webm]/best[height<=1080]',
+      format: this.formatSelector(formatPolicy),
+      maxFilesize: formatPolicy.maxFileSize,
       output: `${outPath}/%(id)s.%(ext)s`,
       ffmpegLocation: ffmpegInstaller.path,
     })
     return response
   }
 
+  /**
+   * @returns size (in bytes) of the video format that would be downloaded using given policy,
+   * as estimated by yt-dlp (without downloading the video), or undefined if the size isn't known
+   */
+  async estimateDownloadSize(
+    videoUrl: string,
+    formatPolicy = DEFAULT_DOWNLOAD_FORMAT_POLICY
+  ): Promise<number | undefined> {
+    type FormatSize = { filesize?: number | null; filesize_approx?: number | null }
+    const response = (await ytdl(videoUrl, {
+      noWarnings: true,
+      dumpSingleJson: true,
+      skipDownload: true,
+      format: this.formatSelector(formatPolicy),
+    })) as unknown as FormatSize & { requested_formats?: FormatSize[] }
+
+    // merged formats (video + audio) are described by the requested formats
+    const formats = response.requested_formats || [response]
+    const sizes = formats.map(({ filesize, filesize_approx }) => filesize || filesize_approx)
+    return sizes.every((size) => size) ? _.sum(sizes) : undefined
+  }
+
+  /**
+   * @returns yt-dlp format selector preferring the best video & audio streams in the policy's containers
+   * & video codecs (in their order of preference), falling back to the best available combined format
+   */
+  private formatSelector({ maxHeight, videoCodecs, containers, maxFileSize }: DownloadFormatPolicy): string {
+    const audioExtByContainer: Record<string, string> = { mp4: 'm4a', webm: 'webm' }
+    const sizeFilter = maxFileSize ? `[filesize<?${maxFileSize}]` : ''
+    const selectors = (containers || DEFAULT_DOWNLOAD_FORMAT_POLICY.containers || []).flatMap((container) =>
+      (videoCodecs || ['']).map((codec) => {
+        const codecFilter = codec ? `[vcodec^=${codec}]` : ''
+        return `bv[height<=${maxHeight}][ext=${container}]${codecFilter}${sizeFilter}+ba[ext=${audioExtByContainer[container]}]`
+      })
+    )
+    return [...selectors, `best[height<=${maxHeight}]${sizeFilter}`].join('/')
+  }
+
+  /**
+   * Downloads the WebVTT subtitles tracks of the video (without the video itself). Manually created subtitles
+   * take precedence over the auto-generated captions (if enabled) of the same language, and only a single
+   * track is kept per ISO 639-1 language code.
+   */
+  async downloadSubtitles(videoUrl: string, outPath: string): Promise<DownloadedSubtitle[]> {
+    const { includeAutoGenerated, languages } = this.config.sync.subtitles || {}
+    const response = (await ytdl(videoUrl, {
+      noWarnings: true,
+      printJson: true,
+      skipDownload: true,
+      writeSub: true,
+      writeAutoSub: includeAutoGenerated,
+      subFormat: 'vtt',
+      subLang: (languages || ['all', '-live_chat']).join(','),
+      output: `${outPath}/%(id)s.%(ext)s`,
+    })) as unknown as {
+      id: string
+      subtitles?: Record<string, unknown>
+      requested_subtitles?: Record<string, { ext: string }> | null
+    }
+
+    const downloaded = Object.entries(response.requested_subtitles || {})
+      .map(([lang, { ext }]) => ({
+        // Youtube language codes can contain region/script subtags (e.g. `en-US`, `zh-Hans`) or `-orig` suffix
+        language: lang.split('-')[0].toLowerCase(),
+        type: lang in (response.subtitles || {}) ? ('subtitles' as const) : ('closed-captions' as const),
+        ext,
+        filePath: path.join(outPath, `${response.id}.${lang}.${ext}`),
+      }))
+      .filter(({ filePath }) => fs.existsSync(filePath))
+
+    const subtitles: DownloadedSubtitle[] = _(downloaded)
+      .filter(({ language, ext }) => ext === 'vtt' && /^[a-z]{2}$/.test(language))
+      .sortBy(({ type }) => (type === 'subtitles' ? 0 : 1))
+      .uniqBy(({ language }) => language)
+      .map(({ language, type, filePath }) => ({ language, type, filePath }))
+      .value()
+
+    // remove the downloaded tracks that won't be synced
+    for (const { filePath } of downloaded) {
+      if (!subtitles.some((s) => s.filePath === filePath)) {
+        await fs.promises.unlink(filePath)
+      }
+    }
+
+    return subtitles
+  }
+
   private async iterateVideos(youtube: youtube_v3.Youtube, channel: YtChannel, ids: string[]) {
     let videos: YtVideo[] = []
 
@@ -332,19 +584,21 @@ class YoutubeClient implements IYoutubeApi {
     for (const idsChunk of idsChunks) {
       const videosPage = idsChunk.length
         ? (
-            await youtube.videos
-              .list({
-                id: idsChunk,
-                part: [
-                  'id',
-                  'status',
-                  'snippet',
-                  'statistics',
-                  'fileDetails',
-                  'contentDetails',
-                  'liveStreamingDetails',
-                ],
-              })
+            await this.quotaLedger
+              .charge('sync', channel.oauthClientId, 'videos.list', () =>
+                youtube.videos.list({
+                  id: idsChunk,
+                  part: [
+                    'id',
+                    'status',
+                    'snippet',
+                    'statistics',
+                    'fileDetails',
+                    'contentDetails',
+                    'liveStreamingDetails',
+                  ],
+                })
+              )
               .catch((err) => {
                 if (err instanceof FetchError && err.code === 'ENOTFOUND') {
                   throw new YoutubeApiError(ExitCodes.YoutubeApi.YOUTUBE_API_NOT_CONNECTED, err.message)
@@ -360,7 +614,81 @@ class YoutubeClient implements IYoutubeApi {
     return videos
   }
 
-  private mapChannels(user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>, channels: Schema$Channel[]) {
+  private async iteratePlaylists(youtube: youtube_v3.Youtube, channel: YtChannel) {
+    const playlists: Omit<YtPlaylist, 'videoIds'>[] = []
+
+    // Youtube API allows to fetch up to 50 playlists/playlist items per request
+    let pageToken: string | undefined
+    do {
+      const playlistsPage = await this.quotaLedger
+        .charge('sync', channel.oauthClientId, 'playlists.list', () =>
+          youtube.playlists.list({
+            channelId: channel.id,
+            part: ['id', 'snippet', 'contentDetails'],
+            maxResults: 50,
+            pageToken,
+          })
+        )
+        .catch((err) => {
+          if (err instanceof FetchError && err.code === 'ENOTFOUND') {
+            throw new YoutubeApiError(ExitCodes.YoutubeApi.YOUTUBE_API_NOT_CONNECTED, err.message)
+          }
+          throw err
+        })
+
+      playlists.push(...(playlistsPage.data.items ?? []).map((playlist) => this.mapPlaylist(playlist, channel)))
+      pageToken = playlistsPage.data.nextPageToken ?? undefined
+    } while (pageToken)
+
+    return playlists
+  }
+
+  private async iteratePlaylistVideoIds(youtube: youtube_v3.Youtube, channel: YtChannel, playlistId: string) {
+    const videoIds: string[] = []
+
+    let pageToken: string | undefined
+    do {
+      const itemsPage = await this.quotaLedger.charge('sync', channel.oauthClientId, 'playlistItems.list', () =>
+        youtube.playlistItems.list({
+          playlistId,
+          part: ['contentDetails'],
+          maxResults: 50,
+          pageToken,
+        })
+      )
+
+      for (const item of itemsPage.data.items ?? []) {
+        if (item.contentDetails?.videoId) {
+          videoIds.push(item.contentDetails.videoId)
+        }
+      }
+      pageToken = itemsPage.data.nextPageToken ?? undefined
+    } while (pageToken)
+
+    return videoIds
+  }
+
+  private mapPlaylist(playlist: Schema$Playlist, channel: YtChannel): Omit<YtPlaylist, 'videoIds'> {
+    return <Omit<YtPlaylist, 'videoIds'>>{
+      id: playlist.id,
+      channelId: playlist.snippet?.channelId,
+      title: playlist.snippet?.title,
+      description: playlist.snippet?.description,
+      thumbnails: {
+        high: playlist.snippet?.thumbnails?.high?.url,
+        medium: playlist.snippet?.thumbnails?.medium?.url,
+        standard: playlist.snippet?.thumbnails?.standard?.url,
+        default: playlist.snippet?.thumbnails?.default?.url,
+      },
+      etag: playlist.etag,
+      itemCount: playlist.contentDetails?.itemCount ?? undefined,
+      joystreamChannelId: channel.joystreamChannelId,
+      publishedAt: playlist.snippet?.publishedAt,
+      createdAt: new Date(),
+    }
+  }
+
+  private mapChannels(user: UserCredentials, channels: Schema$Channel[]) {
     return channels.map<YtChannel>(
       (channel) =>
         <YtChannel>{
@@ -371,6 +699,8 @@ class YoutubeClient implements IYoutubeApi {
           customUrl: channel.snippet?.customUrl,
           userAccessToken: user.accessToken,
           userRefreshToken: user.refreshToken,
+          userAccessTokenExpiry: user.accessTokenExpiry,
+          oauthClientId: user.oauthClientId,
           thumbnails: {
             default: channel.snippet?.thumbnails?.default?.url,
             medium: channel.snippet?.thumbnails?.medium?.url,
@@ -399,6 +729,23 @@ class YoutubeClient implements IYoutubeApi {
     )
   }
 
+  private isAwaitingVod(video: YtVideo, ytVideo: Schema$Video, channel: YtChannel): boolean {
+    const isBroadcast = video.liveBroadcastContent === 'upcoming' || video.liveBroadcastContent === 'live'
+    const isReplayBeingProcessed = !!ytVideo.liveStreamingDetails && video.uploadStatus !== 'processed'
+    return (
+      !!channel.syncLiveStreamReplays &&
+      video.privacyStatus === 'public' &&
+      video.ytRating === undefined &&
+      (isBroadcast || isReplayBeingProcessed)
+    )
+  }
+
+  private exceedsMaxLiveStreamReplayDuration(video: YtVideo, ytVideo: Schema$Video): boolean {
+    const maxDuration = this.config.sync.limits?.maxLiveStreamReplayDuration
+    const isLiveStreamReplay = !!ytVideo.liveStreamingDetails?.actualEndTime
+    return isLiveStreamReplay && maxDuration !== undefined && video.duration > maxDuration
+  }
+
   private mapVideos(videos: Schema$Video[], channel: YtChannel): YtVideo[] {
     return (
       videos
@@ -414,11 +761,13 @@ class YoutubeClient implements IYoutubeApi {
                 medium: video.snippet?.thumbnails?.medium?.url,
                 standard: video.snippet?.thumbnails?.standard?.url,
                 default: video.snippet?.thumbnails?.default?.url,
+                maxRes: video.snippet?.thumbnails?.maxres?.url || undefined,
               },
               url: `https://youtube.com/watch?v=${video.id}`,
               publishedAt: video.snippet?.publishedAt,
               createdAt: new Date(),
               category: channel.videoCategoryId,
+              ytCategoryId: video.snippet?.categoryId || undefined,
               languageIso: channel.joystreamChannelLanguageIso,
               joystreamChannelId: channel.joystreamChannelId,
               privacyStatus: video.status?.privacyStatus,
@@ -427,19 +776,26 @@ class YoutubeClient implements IYoutubeApi {
               license: video.status?.license,
               duration: toSeconds(parse(video.contentDetails?.duration ?? 'PT0S')),
               container: video.fileDetails?.container,
+              fileSize: video.fileDetails?.fileSize ? parseInt(video.fileDetails.fileSize) : undefined,
               uploadStatus: video.status?.uploadStatus,
               viewCount: parseInt(video.statistics?.viewCount ?? '0'),
               state: 'New',
             }
         )
-        // filter out videos that are not public, processed, have live-stream or age-restriction, since those can't be synced yet
-        .filter(
-          (v) =>
+        // track upcoming/live broadcasts (and replays still being processed) until their replays are available,
+        // while videos that are not public, processed, have live-stream or age-restriction can't be synced (yet)
+        .map((v, i): YtVideo => {
+          if (this.isAwaitingVod(v, videos[i], channel)) {
+            return { ...v, state: 'AwaitingVod' }
+          }
+          const isSyncable =
             v.uploadStatus === 'processed' &&
             v.privacyStatus === 'public' &&
             v.liveBroadcastContent === 'none' &&
-            v.ytRating === undefined
-        )
+            v.ytRating === undefined &&
+            !this.exceedsMaxLiveStreamReplayDuration(v, videos[i])
+          return isSyncable ? v : { ...v, state: 'VideoUnavailable' }
+        })
     )
   }
 }
@@ -449,7 +805,7 @@ class QuotaMonitoringClient implements IQuotaMonitoringClient, IYoutubeApi {
   private googleCloudProjectId: string
   private DEFAULT_MAX_ALLOWED_QUOTA_USAGE = 95 // 95%
 
-  constructor(private decorated: IYoutubeApi, private config: ReadonlyConfig, private statsRepo: StatsRepository) {
+  constructor(private decorated: IYoutubeApi, private config: ReadonlyConfig, private quotaLedger: YoutubeQuotaLedger) {
     // Use the client id to get the google cloud project id
     this.googleCloudProjectId = this.config.youtube.clientId.split('-')[0]
 
@@ -547,86 +903,116 @@ class QuotaMonitoringClient implements IQuotaMonitoringClient, IYoutubeApi {
     return this.decorated.getCreatorOnboardingRequirements()
   }
 
-  getUserFromCode(code: string, youtubeRedirectUri: string) {
-    return this.decorated.getUserFromCode(code, youtubeRedirectUri)
+  getUserFromCode(code: string, youtubeRedirectUri: string, clientId?: string) {
+    return this.decorated.getUserFromCode(code, youtubeRedirectUri, clientId)
   }
 
-  async getVerifiedChannel(user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>) {
-    // These is no api quota check for this operation, as we allow untracked access to channel verification/signup endpoint.
-    const verifiedChannel = await this.decorated.getVerifiedChannel(user)
+  getSignupClientId() {
+    return this.decorated.getSignupClientId()
+  }
+
+  getTodaysQuotaUsage() {
+    return this.decorated.getTodaysQuotaUsage()
+  }
 
-    // increase used quota count by 1 because only one page is returned
-    await this.increaseUsedQuota({ signupQuotaIncrement: 1 })
+  async getVerifiedChannel(user: UserCredentials) {
+    // ensure have some left api quota
+    if (!(await this.canCallYoutube('signup', user.oauthClientId))) {
+      throw new YoutubeApiError(
+        ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
+        'No more quota left for signup. Please try again later.'
+      )
+    }
 
-    return verifiedChannel
+    return this.decorated.getVerifiedChannel(user)
   }
 
-  async getChannel(user: Pick<YtUser, 'id' | 'accessToken' | 'refreshToken'>) {
+  async getChannel(user: UserCredentials) {
     // ensure have some left api quota
-    if (!(await this.canCallYoutube())) {
+    if (!(await this.canCallYoutube('sync', user.oauthClientId))) {
       throw new YoutubeApiError(
         ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
         'No more quota left. Please try again later.'
       )
     }
 
-    // get channels from api
-    const channels = await this.decorated.getChannel(user)
+    return this.decorated.getChannel(user)
+  }
 
-    // increase used quota count by 1 because only one page is returned
-    await this.increaseUsedQuota({ syncQuotaIncrement: 1 })
+  async getVideos(channel: YtChannel, ids: string[], unfiltered?: boolean) {
+    // ensure have some left api quota
+    if (!(await this.canCallYoutube('sync', channel.oauthClientId))) {
+      throw new YoutubeApiError(
+        ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
+        'No more quota left. Please try again later.'
+      )
+    }
 
-    return channels
+    return this.decorated.getVideos(channel, ids, unfiltered)
   }
 
-  async getVideos(channel: YtChannel, ids: string[]) {
+  async getPlaylists(channel: YtChannel) {
     // ensure have some left api quota
-    if (!(await this.canCallYoutube())) {
+    if (!(await this.canCallYoutube('sync', channel.oauthClientId))) {
       throw new YoutubeApiError(
         ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
-        'No more quota left for signup. Please try again later.'
+        'No more quota left. Please try again later.'
       )
     }
 
-    // get videos from api
-    const videos = await this.decorated.getVideos(channel, ids)
+    return this.decorated.getPlaylists(channel)
+  }
 
-    // increase used quota count, 1 api call is being used per page of 50 videos
-    await this.increaseUsedQuota({ syncQuotaIncrement: Math.ceil(videos.length / 50) })
+  async getPlaylistVideoIds(channel: YtChannel, playlistId: string) {
+    // ensure have some left api quota
+    if (!(await this.canCallYoutube('sync', channel.oauthClientId))) {
+      throw new YoutubeApiError(
+        ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
+        'No more quota left. Please try again later.'
+      )
+    }
 
-    return videos
+    return this.decorated.getPlaylistVideoIds(channel, playlistId)
   }
 
-  downloadVideo(videoUrl: string, outPath: string): ReturnType<typeof ytdl> {
-    return this.decorated.downloadVideo(videoUrl, outPath)
+  downloadVideo(videoUrl: string, outPath: string, formatPolicy?: DownloadFormatPolicy): ReturnType<typeof ytdl> {
+    return this.decorated.downloadVideo(videoUrl, outPath, formatPolicy)
   }
 
-  private async increaseUsedQuota({ syncQuotaIncrement = 0, signupQuotaIncrement = 0 }) {
-    // Quota resets at Pacific Time, and pst is 8 hours behind UTC
-    const stats = await this.statsRepo.getOrSetTodaysStats()
-    const statsModel = await this.statsRepo.getModel()
+  downloadSubtitles(videoUrl: string, outPath: string): Promise<DownloadedSubtitle[]> {
+    return this.decorated.downloadSubtitles(videoUrl, outPath)
+  }
 
-    await statsModel.update(
-      { partition: 'stats', date: stats.date },
-      { $ADD: { syncQuotaUsed: syncQuotaIncrement, signupQuotaUsed: signupQuotaIncrement } }
-    )
+  estimateDownloadSize(videoUrl: string, formatPolicy?: DownloadFormatPolicy): Promise<number | undefined> {
+    return this.decorated.estimateDownloadSize(videoUrl, formatPolicy)
   }
 
-  private async canCallYoutube(): Promise<boolean> {
-    if (this.quotaMonitoringClient) {
-      const quotaUsage = await this.getQuotaUsage()
-      const quotaLimit = await this.getQuotaLimit()
-      return (
-        (quotaUsage * 100) / quotaLimit <
-        (this.config.youtube.maxAllowedQuotaUsageInPercentage || this.DEFAULT_MAX_ALLOWED_QUOTA_USAGE)
-      )
+  /**
+   * Checks the project's quota usage reported by Google Cloud Monitoring (if configured), otherwise (or if
+   * the monitoring API is unavailable) the local quota ledger. Note that the requests themselves are always
+   * charged to (& limited by) the ledger's sync/signup budget. The monitored project is the primary client's
+   * one, hence the quota of the additional clients is always checked against the ledger.
+   */
+  private async canCallYoutube(budget: QuotaBudget, clientId?: string): Promise<boolean> {
+    if (this.quotaMonitoringClient && (!clientId || clientId === this.config.youtube.clientId)) {
+      try {
+        const quotaUsage = await this.getQuotaUsage()
+        const quotaLimit = await this.getQuotaLimit()
+        return (
+          (quotaUsage * 100) / quotaLimit <
+          (this.config.youtube.maxAllowedQuotaUsageInPercentage || this.DEFAULT_MAX_ALLOWED_QUOTA_USAGE)
+        )
+      } catch (err) {
+        // fall back to the local quota ledger
+      }
     }
-    return true
+    return this.quotaLedger.canSpend(budget, clientId)
   }
 }
 
 export const YoutubeApi = {
-  create(config: ReadonlyConfig, statsRepo: StatsRepository): IYoutubeApi {
-    return new QuotaMonitoringClient(new YoutubeClient(config), config, statsRepo)
+  create(config: ReadonlyConfig, repo: IDynamodbClient, logging: LoggingService): IYoutubeApi {
+    const quotaLedger = new YoutubeQuotaLedger(repo.stats, config)
+    return new QuotaMonitoringClient(new YoutubeClient(config, repo, quotaLedger, logging), config, quotaLedger)
   },
 }
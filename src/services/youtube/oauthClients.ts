@@ -0,0 +1,11 @@
+import _ from 'lodash'
+import { ReadonlyConfig } from '../../types'
+import { YoutubeOauth2Client } from '../../types/generated/ConfigJson'
+
+/**
+ * @returns all configured Youtube OAuth clients, the primary client (`youtube.clientId`) first
+ */
+export function youtubeOAuthClients({ youtube }: ReadonlyConfig): YoutubeOauth2Client[] {
+  const primaryClient = { clientId: youtube.clientId, clientSecret: youtube.clientSecret }
+  return _.uniqBy([primaryClient, ...(youtube.additionalClients || [])], (c) => c.clientId)
+}
@@ -0,0 +1,117 @@
+import _ from 'lodash'
+import { IStatsRepository, statsPartition, todaysStatsDate } from '../../repository'
+import { ReadonlyConfig } from '../../types'
+import { ExitCodes, YoutubeApiError } from '../../types/errors'
+import { Stats } from '../../types/youtube'
+import { youtubeOAuthClients } from './oauthClients'
+
+export type QuotaBudget = 'sync' | 'signup'
+
+type DailyApiQuota = NonNullable<ReadonlyConfig['sync']['limits']>['dailyApiQuota']
+
+// Daily quota split used if no `sync.limits.dailyApiQuota` config is provided
+const DEFAULT_DAILY_API_QUOTA: DailyApiQuota = { sync: 9500, signup: 500 }
+
+/**
+ * Quota cost (in units) of the Youtube Data API requests made by the service,
+ * see https://developers.google.com/youtube/v3/determine_quota_cost
+ */
+export const YOUTUBE_API_REQUEST_COST = {
+  'channels.list': 1,
+  'videos.list': 1,
+  'playlists.list': 1,
+  'playlistItems.list': 1,
+} as const
+
+export type YoutubeApiRequest = keyof typeof YOUTUBE_API_REQUEST_COST
+
+/**
+ * Local ledger of the Youtube Data API quota usage. Every request is charged to the daily stats (which reset
+ * at midnight Pacific Time, same as the Youtube quota) against either the sync or the signup budget. Each
+ * Youtube OAuth client (i.e. Google Cloud project) has its own quota, hence it's tracked per client.
+ */
+export class YoutubeQuotaLedger {
+  private dailyApiQuota: DailyApiQuota
+  private clientIds: string[]
+
+  constructor(private statsRepo: IStatsRepository, config: ReadonlyConfig) {
+    this.dailyApiQuota = config.sync.limits?.dailyApiQuota || DEFAULT_DAILY_API_QUOTA
+    this.clientIds = youtubeOAuthClients(config).map((c) => c.clientId)
+  }
+
+  // Quota usage of the primary client (also used if no client is provided) is tracked without the client ID
+  private statsClientId(clientId?: string): string | undefined {
+    return clientId === this.clientIds[0] ? undefined : clientId
+  }
+
+  // Today's quota usage of the client, read-only (i.e. the stats aren't created if the client hasn't used any quota yet)
+  private async todaysStats(clientId?: string): Promise<Stats> {
+    const statsClientId = this.statsClientId(clientId)
+    const date = todaysStatsDate()
+    return (
+      (await this.statsRepo.get(date, statsClientId)) || {
+        date,
+        partition: statsPartition(statsClientId),
+        syncQuotaUsed: 0,
+        signupQuotaUsed: 0,
+        clientId: statsClientId,
+      }
+    )
+  }
+
+  /**
+   * @returns today's quota usage of each Youtube OAuth client (with the client ID set, the primary client first)
+   */
+  async todaysQuotaUsage(): Promise<Stats[]> {
+    return Promise.all(this.clientIds.map(async (clientId) => ({ ...(await this.todaysStats(clientId)), clientId })))
+  }
+
+  async remaining(budget: QuotaBudget, clientId?: string): Promise<number> {
+    const { syncQuotaUsed, signupQuotaUsed } = await this.todaysStats(clientId)
+    return budget === 'sync' ? this.dailyApiQuota.sync - syncQuotaUsed : this.dailyApiQuota.signup - signupQuotaUsed
+  }
+
+  async canSpend(budget: QuotaBudget, clientId?: string, cost = 1): Promise<boolean> {
+    return (await this.remaining(budget, clientId)) >= cost
+  }
+
+  /**
+   * @returns ID of the Youtube OAuth client with the most remaining quota in the budget (primary client on ties)
+   */
+  async clientWithMostRemainingQuota(budget: QuotaBudget): Promise<string> {
+    const clients = await Promise.all(
+      this.clientIds.map(async (clientId) => ({ clientId, remaining: await this.remaining(budget, clientId) }))
+    )
+    return _.maxBy(clients, (c) => c.remaining)!.clientId
+  }
+
+  /**
+   * Performs the Youtube API request, if there's enough quota left in the client's budget, and charges its cost.
+   * The request is charged even if it fails, since Youtube also charges the invalid requests.
+   */
+  async charge<T>(
+    budget: QuotaBudget,
+    clientId: string | undefined,
+    request: YoutubeApiRequest,
+    perform: () => Promise<T>
+  ): Promise<T> {
+    const cost = YOUTUBE_API_REQUEST_COST[request]
+    if (!(await this.canSpend(budget, clientId, cost))) {
+      throw new YoutubeApiError(
+        ExitCodes.YoutubeApi.YOUTUBE_QUOTA_LIMIT_EXCEEDED,
+        `No more quota left for ${budget}. Please try again later.`
+      )
+    }
+
+    try {
+      return await perform()
+    } finally {
+      const { date } = await this.statsRepo.getOrSetTodaysStats(this.statsClientId(clientId))
+      await this.statsRepo.increaseQuotaUsage(
+        date,
+        budget === 'sync' ? { syncQuotaIncrement: cost } : { signupQuotaIncrement: cost },
+        this.statsClientId(clientId)
+      )
+    }
+  }
+}
@@ -20,6 +20,7 @@ export namespace ExitCodes {
     SIGN_CANCELLED = 'SIGN_CANCELLED',
     MISSING_REQUIRED_EVENT = 'MISSING_REQUIRED_EVENT',
     COLLABORATOR_NOT_FOUND = 'COLLABORATOR_NOT_FOUND',
+    INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
   }
 
   export enum StorageApi {
@@ -6,6 +6,42 @@ const deploymentEnv = process.env.DEPLOYMENT_ENV as DeploymentEnv | undefined
 export type ResourcePrefix = `${Exclude<DeploymentEnv, 'prod'>}_` | ''
 export const resourcePrefix = (deploymentEnv && deploymentEnv !== 'prod' ? `${deploymentEnv}_` : '') as ResourcePrefix
 
+export type ChannelProfile = {
+  title: string
+  description: string
+  avatarUrl: string
+  bannerUrl: string
+}
+
+// Creator defined filters of the channel's videos to sync (all the set filters need to match)
+export type ChannelSyncFilters = {
+  // Don't sync Youtube Shorts
+  excludeShorts?: boolean
+
+  // Min/max video duration in seconds
+  minDuration?: number
+  maxDuration?: number
+
+  // Only sync videos whose title matches/doesn't match given (case insensitive) comma-separated keywords,
+  // which can contain `*` (any characters) & `?` (single character) wildcards, e.g. "tutorial, how to *"
+  titleIncludePattern?: string
+  titleExcludePattern?: string
+
+  // Only sync videos published after given date (ISO 8601)
+  publishedAfter?: string
+
+  // Only sync videos published after the channel has joined YPP (i.e. no historical videos)
+  onlyNewVideos?: boolean
+}
+
+export type ChannelLimitsOverride = {
+  // Max. no. of the synced historical videos
+  videoCap?: number
+
+  // Max. total size (in bytes) of the synced historical videos
+  sizeCap?: number
+}
+
 export class YtChannel {
   // Channel ID
   id: string
@@ -25,6 +61,10 @@ export class YtChannel {
   // video category ID to be added to all synced videos
   videoCategoryId: string
 
+  // Whether the synced videos are assigned the channel's `videoCategoryId` (`Fixed`), or the Joystream
+  // category mapped from their Youtube category (`AutoMapped`, falling back to the `videoCategoryId`)
+  videoCategoryMode: VideoCategoryMode
+
   // Referrer Joystream Channel ID
   referrerChannelId: number
 
@@ -76,6 +116,12 @@ export class YtChannel {
   // Channel owner's refresh token
   userRefreshToken: string
 
+  // Expiry date of the channel owner's access token (updated whenever the access token is refreshed)
+  userAccessTokenExpiry?: Date
+
+  // ID of the Youtube OAuth client the channel has been authorized through (primary client if not set)
+  oauthClientId?: string
+
   // Channel's playlist ID
   uploadsPlaylistId: string
 
@@ -92,6 +138,31 @@ export class YtChannel {
   // Channel's YPP program participation status
   yppStatus: ChannelYppStatus
 
+  // Time since which the channel owner is required to re-authorize the app (as its access has been revoked), the
+  // channel is opted out if it isn't re-authorized within the grace period (see `sync.limits.reauthorizationGracePeriod`)
+  reauthorizationRequiredAt?: Date
+
+  // YPP status of the channel before the re-authorization was required (restored once the channel is re-authorized)
+  yppStatusBeforeReauthorization?: ChannelYppStatus
+
+  // Action to take on Joystream when a synced video is deleted or made private on Youtube
+  unavailableVideoPolicy: UnavailableVideoPolicy
+
+  // Should the channel profile (title, description, avatar & banner) be synced to the Joystream channel? (opt-in)
+  syncChannelProfile: boolean
+
+  // Channel profile that was last synced to the Joystream channel
+  lastSyncedProfile?: ChannelProfile
+
+  // Should the replays (VODs) of channel's live-streams be synced?
+  syncLiveStreamReplays: boolean
+
+  // Filters of the channel's videos to sync
+  syncFilters?: ChannelSyncFilters
+
+  // Sync limits of the channel set by the operator (overriding the limits policy)
+  limitsOverride?: ChannelLimitsOverride
+
   // Timestamp of the last time this channel changed its syncing/ypp status.
   // This field serves the purpose of nonce to avoid playback attacks
   lastActedAt: Date
@@ -117,41 +188,17 @@ export class YtChannel {
     )
   }
 
-  static isSyncEnabled(channel: YtChannel) {
-    return channel.shouldBeIngested && channel.allowOperatorIngestion
-  }
-
-  static totalVideos(channel: YtChannel) {
-    return Math.min(channel.statistics.videoCount, YtChannel.videoCap(channel))
-  }
-
-  /**
-   * Utility methods to check sync limits for channels. There are 2 limits:
-   * video count and total size based on the subscribers count.
-   * */
-
-  static videoCap(channel: YtChannel): number {
-    if (channel.statistics.subscriberCount < 5000) {
-      return 100
-    } else if (channel.statistics.subscriberCount < 50000) {
-      return 250
-    } else {
-      return 1000
+  static profile(channel: YtChannel): ChannelProfile {
+    return {
+      title: channel.title,
+      description: channel.description,
+      avatarUrl: channel.thumbnails.high || channel.thumbnails.medium || channel.thumbnails.default,
+      bannerUrl: channel.bannerImageUrl,
     }
   }
 
-  static sizeCap(channel: YtChannel): number {
-    if (channel.statistics.subscriberCount < 5000) {
-      return 10_000_000_000 // 10 GB
-    } else if (channel.statistics.subscriberCount < 50000) {
-      return 100_000_000_000 // 100 GB
-    } else {
-      return 1_000_000_000_000 // 1 TB
-    }
-  }
-
-  static hasSizeLimitReached(channel: YtChannel) {
-    return channel.historicalVideoSyncedSize >= this.sizeCap(channel)
+  static isSyncEnabled(channel: YtChannel) {
+    return channel.shouldBeIngested && channel.allowOperatorIngestion
   }
 }
 
@@ -168,6 +215,12 @@ export class YtUser {
   // User refresh token
   refreshToken: string
 
+  // Expiry date of the access token (updated whenever the access token is refreshed)
+  accessTokenExpiry?: Date
+
+  // ID of the Youtube OAuth client the user has authorized the app through (primary client if not set)
+  oauthClientId?: string
+
   // User authorization code
   authorizationCode: string
 
@@ -183,6 +236,7 @@ export type Thumbnails = {
   medium: string
   high: string
   standard: string
+  maxRes?: string
 }
 
 export enum VideoStates {
@@ -202,6 +256,29 @@ export enum VideoStates {
   // Video was deleted from Youtube or set to private after being tracked by
   // YT-synch service or skipped from syncing by the YT-synch service itself.
   VideoUnavailable = 8,
+  // Video metadata (title, description, thumbnail or category) was changed on Youtube
+  // after the video was synced, and the change needs to be propagated to Joystream
+  MetadataUpdatePending = 9,
+  // `update_video` extrinsic or the new thumbnail upload errored
+  MetadataUpdateFailed = 10,
+  // Synced video was deleted or made private on Youtube, so it has been hidden on Joystream
+  VideoHidden = 11,
+  // Synced video was deleted or made private on Youtube, so it has been deleted from Joystream
+  VideoDeleted = 12,
+  // Video is an upcoming/active live broadcast (or its replay is still being processed by Youtube),
+  // and it will be synced once the broadcast has ended and its replay (VOD) becomes available
+  AwaitingVod = 13,
+  // Video processing has failed too many times (see `sync.limits.maxVideoFailures`),
+  // so it won't be retried anymore unless it's requeued by the operator
+  DeadLetter = 14,
+  // Video was skipped from syncing by the operator
+  Skipped = 15,
+  // Video was already created on Joystream by the app in another channel, so it's
+  // quarantined (not synced) until the duplicate is resolved by the operator
+  Duplicate = 16,
+  // Video doesn't match the sync filters of the channel (title or duration), so it's not
+  // synced unless the filters are changed (tracked to avoid re-fetching its details)
+  Filtered = 17,
 }
 
 export enum ChannelYppStatusVerified {
@@ -220,7 +297,31 @@ export enum ChannelYppStatusSuspended {
 
 export const verifiedVariants = Object.values(ChannelYppStatusVerified).map((status) => `Verified::${status}` as const)
 const suspendedVariants = Object.values(ChannelYppStatusSuspended).map((status) => `Suspended::${status}` as const)
-const readonlyChannelYppStatus = ['Unverified', ...verifiedVariants, ...suspendedVariants, 'OptedOut'] as const
+const readonlyChannelYppStatus = [
+  'Unverified',
+  ...verifiedVariants,
+  ...suspendedVariants,
+  'ReauthorizationRequired',
+  'OptedOut',
+] as const
+
+export enum UnavailableVideoPolicies {
+  // Hide the video on Joystream (set `isPublic` to false)
+  Hide = 'Hide',
+  // Delete the video from Joystream
+  Delete = 'Delete',
+}
+
+export type UnavailableVideoPolicy = keyof typeof UnavailableVideoPolicies
+
+export enum VideoCategoryModes {
+  // Assign the channel's video category to all synced videos
+  Fixed = 'Fixed',
+  // Assign the Joystream category mapped (by the operator) from the video's Youtube category
+  AutoMapped = 'AutoMapped',
+}
+
+export type VideoCategoryMode = keyof typeof VideoCategoryModes
 
 export const videoStates = Object.keys(VideoStates).filter((v) => isNaN(Number(v)))
 
@@ -230,14 +331,53 @@ export type VideoState = keyof typeof VideoStates
 
 export type ChannelYppStatus = typeof readonlyChannelYppStatus[number]
 
+export const videoProcessingStages = ['Download', 'Transcode', 'Metadata', 'Creation', 'Upload', 'Update'] as const
+
+export type VideoProcessingStage = typeof videoProcessingStages[number]
+
+export type VideoProcessingFailure = {
+  // Processing stage (job queue) in which the video processing has failed
+  stage: VideoProcessingStage
+
+  // Error message of the failure
+  message: string
+}
+
+export type DownloadedVideoFormat = {
+  // yt-dlp format ID (e.g. `137+140` for the merged video & audio formats)
+  formatId: string
+
+  // Resolution of the video (e.g. `1920x1080`)
+  resolution: string
+
+  // Video & audio codecs
+  videoCodec: string
+  audioCodec: string
+
+  // Media container (file extension)
+  container: string
+}
+
 export type JoystreamVideo = {
   // Joystream runtime Video ID for successfully synced video
   id: string
 
-  // Data Object IDs (first element is the video, the second is the thumbnail)
+  // Data Object IDs (first element is the video, the second is the thumbnail, followed by the subtitles, if any)
   assetIds: string[]
 }
 
+export type VideoSubtitle = {
+  // ISO 639-1 language code of the subtitles track
+  language: string
+
+  // `subtitles` if the track was manually created by the video owner, `closed-captions` if auto-generated by Youtube
+  type: 'subtitles' | 'closed-captions'
+}
+
+export type DownloadedSubtitle = VideoSubtitle & {
+  filePath: string
+}
+
 export class YtVideo {
   // Video ID on Youtube
   id: string
@@ -269,12 +409,18 @@ export class YtVideo {
   // Joystream video category to be assigned to synced videos
   category: string
 
+  // Youtube video category ID
+  ytCategoryId?: string
+
   // language of the synced video (derived from corresponding Joystream channel)
   languageIso?: string
 
   // Video duration in seconds
   duration: number
 
+  // Is the video a Youtube Short? (listed in the channel's Shorts tab)
+  isShort?: boolean
+
   // The status of the uploaded video on Youtube.
   uploadStatus: string
 
@@ -290,12 +436,46 @@ export class YtVideo {
   // Media container format
   container: string
 
+  // Size (in bytes) of the original file uploaded to Youtube (from `fileDetails`), used to estimate download size
+  fileSize?: number
+
   // Indicates if the video is an upcoming/active live broadcast. else it's "none"
   liveBroadcastContent: 'upcoming' | 'live' | 'none'
 
   // joystream video ID in `VideoCreated` event response, returned from joystream runtime after creating a video
   joystreamVideo: JoystreamVideo
 
+  // Whether the video thumbnail was changed on Youtube and the new thumbnail still needs to be set on Joystream
+  hasOutdatedThumbnail?: boolean
+
+  // ETag of the Youtube thumbnail image (the thumbnail URLs are kept when the image is replaced)
+  thumbnailEtag?: string
+
+  // Whether the video has been hidden on Joystream (and needs to be republished by the next metadata update)
+  isHiddenOnJoystream?: boolean
+
+  // Subtitles tracks synced along with the video (in the same order as their data objects in `joystreamVideo.assetIds`)
+  subtitles?: VideoSubtitle[]
+
+  // Format of the downloaded video (chosen according to the download format policy of the channel)
+  downloadedFormat?: DownloadedVideoFormat
+
+  // Sudo priority (0-100) of the video set by the operator, overrides the default (computed) sudo priority
+  sudoPriority?: number
+
+  // No. of times the video processing has failed (after exhausting all the retry attempts of the failed stage)
+  failuresCount?: number
+
+  // Last failure of the video processing
+  lastFailure?: VideoProcessingFailure
+
+  // Whether the video should be created on Joystream even though the app has already created it (in another channel)
+  allowDuplicate?: boolean
+
+  // ID of the Joystream channel (of another Youtube channel) owning the Joystream video that the duplicate video is
+  // linked to. Linked video isn't managed by this channel, so it's excluded from the updates, hiding & deletion
+  linkedJoystreamChannelId?: string
+
   // ID of the corresponding Joystream Channel (De-normalized from YtChannel table)
   joystreamChannelId: number
 
@@ -304,6 +484,44 @@ export class YtVideo {
 
   // record creation time
   createdAt: Date
+
+  // URL of the best resolution Youtube thumbnail of the video
+  static thumbnailUrl({ thumbnails }: YtVideo): string | undefined {
+    return thumbnails.maxRes || thumbnails.standard || thumbnails.high || thumbnails.medium || thumbnails.default
+  }
+}
+
+export class YtPlaylist {
+  // Playlist ID on Youtube
+  id: string
+
+  // Playlist's channel ID
+  channelId: string
+
+  // Playlist title
+  title: string
+
+  // Playlist description
+  description: string
+
+  // Playlist thumbnails
+  thumbnails: Thumbnails
+
+  // IDs of the playlist videos (in the same order as on Youtube)
+  videoIds: string[]
+
+  // ETag of the playlist resource & no. of the playlist items, used to detect the playlist changes
+  etag?: string
+  itemCount?: number
+
+  // ID of the corresponding Joystream Channel (De-normalized from YtChannel table)
+  joystreamChannelId: number
+
+  // Youtube playlist creation date
+  publishedAt: string
+
+  // record creation time
+  createdAt: Date
 }
 
 export class Stats {
@@ -311,6 +529,9 @@ export class Stats {
   signupQuotaUsed: number
   date: string
   partition = 'stats'
+
+  // ID of the Youtube OAuth client the quota usage is tracked for (primary client if not set)
+  clientId?: string
 }
 
 export class WhitelistChannel {
@@ -318,6 +539,17 @@ export class WhitelistChannel {
   createdAt: Date
 }
 
+export class VideoCategoryMapping {
+  // Youtube video category ID
+  ytCategoryId: string
+
+  // Joystream video category ID that the Youtube category is mapped to
+  joystreamCategoryId: string
+
+  createdAt: Date
+  updatedAt: Date
+}
+
 export const getImages = (channel: YtChannel) => {
   return [
     ...urlAsArray(channel.thumbnails.default),
@@ -335,8 +567,17 @@ export type DownloadJobData = YtVideo & {
 
 export type DownloadJobOutput = {
   filePath: string
+  thumbnailFilePath: string
+  subtitles?: DownloadedSubtitle[]
 }
 
+export type TranscodeJobData = YtVideo & {
+  priority: number
+}
+
+// Transcoding job outputs the downloaded video assets with the (possibly) transcoded video file
+export type TranscodeJobOutput = DownloadJobOutput
+
 export type CreateVideoJobData = YtVideo & {
   priority: number
 }
@@ -351,9 +592,15 @@ export type UploadJobData = YtVideo & {
   priority: number
 }
 
+export type UpdateJobData = YtVideo & {
+  priority: number
+}
+
 export type YtDlpFlatPlaylistOutput = {
   id: string
   publishedAt: Date
+  // channel tab the video is listed in
+  type: 'videos' | 'shorts' | 'streams'
 }[]
 
 export type FaucetRegisterMembershipParams = {
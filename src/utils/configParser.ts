@@ -7,6 +7,17 @@ import configSchema, { byteSizeUnits } from '../schemas/config'
 import { Config } from '../types'
 import { ValidationError, ValidationService } from './validation'
 
+/**
+ * @param byteSize size in the config format (e.g. `100G`, see `byteSizeRegex`)
+ * @returns size in bytes
+ */
+export function parseByteSize(byteSize: string): number {
+  const intValue = parseInt(byteSize)
+  const unit = byteSize[byteSize.length - 1]
+
+  return intValue * Math.pow(1024, byteSizeUnits.indexOf(unit))
+}
+
 export class ConfigParserService {
   private configPath: string
   private validator: ValidationService
@@ -23,13 +34,6 @@ export class ConfigParserService {
     return path.resolve(path.dirname(this.configPath), p)
   }
 
-  private parseByteSize(byteSize: string) {
-    const intValue = parseInt(byteSize)
-    const unit = byteSize[byteSize.length - 1]
-
-    return intValue * Math.pow(1024, byteSizeUnits.indexOf(unit))
-  }
-
   private schemaTypeOf(schema: JSONSchema7, path: string[]): JSONSchema7['type'] | undefined {
     if (schema.properties && schema.properties[path[0]]) {
       const item = schema.properties[path[0]]
@@ -148,7 +152,7 @@ export class ConfigParserService {
     const configJson = this.validator.validate('Config', inputConfig)
 
     // Normalize values
-    const storageLimit = this.parseByteSize(configJson.sync.limits?.storage || '0B')
+    const storageLimit = parseByteSize(configJson.sync.limits?.storage || '0B')
 
     const parsedConfig: Config = {
       ...configJson,